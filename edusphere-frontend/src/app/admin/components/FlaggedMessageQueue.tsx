@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import useAuth from '../../../contexts/useAuth';
+import { ModerationService } from '../../../services/moderation';
+import type { FlaggedMessage, FlagResolution } from '../../../services/moderation';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Messages the content filter let through but queued for a moderator to review
+ */
+const FlaggedMessageQueue: React.FC = () => {
+  const { user } = useAuth();
+  const [flags, setFlags] = useState<FlaggedMessage[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFlags = useCallback(async (skip: number): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await ModerationService.getFlaggedMessages(skip, PAGE_SIZE);
+      setFlags(prev => (skip ? [...prev, ...page.flags] : page.flags));
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Failed to fetch flagged messages:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch flagged messages');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFlags(0);
+  }, [fetchFlags]);
+
+  const resolve = async (flag: FlaggedMessage, resolution: FlagResolution): Promise<void> => {
+    if (!user?.id) return;
+    setResolvingId(flag.id);
+    setError(null);
+    try {
+      await ModerationService.resolveFlag(flag.id, resolution, user.id.toString());
+      setFlags(prev => prev.filter(f => f.id !== flag.id));
+      setTotal(prev => prev - 1);
+    } catch (err) {
+      console.error('Failed to resolve flag:', err);
+      setError(err instanceof Error ? err.message : 'Failed to resolve flag');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-medium text-gray-900">Review Queue</h3>
+        <span className="text-sm text-gray-500">{total} awaiting review</span>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-3">
+          <span className="text-red-800 text-sm">{error}</span>
+        </div>
+      )}
+
+      {!flags.length ? (
+        <p className="text-sm text-gray-500 py-6 text-center border border-gray-200 rounded-lg">
+          {isLoading ? 'Loading...' : 'No flagged messages. All clear!'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {flags.map(flag => (
+            <li key={flag.id} className="p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-500">
+                    <span className="font-medium text-gray-900">{flag.message.user?.username || 'Unknown User'}</span>
+                    {' in '}
+                    <Link
+                      to={`/app/rooms/${flag.roomId}?message=${encodeURIComponent(flag.message.id)}`}
+                      className="text-primary-600 hover:underline"
+                    >
+                      {flag.roomName || 'room'}
+                    </Link>
+                    {' · '}
+                    {new Date(flag.flaggedAt).toLocaleString()}
+                  </div>
+                  <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap break-words">{flag.message.content}</p>
+                  <p className="mt-1 text-xs text-amber-700">{flag.reason}</p>
+                </div>
+                <div className="flex flex-shrink-0 space-x-2">
+                  <button
+                    onClick={() => resolve(flag, 'approve')}
+                    disabled={resolvingId === flag.id}
+                    className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => resolve(flag, 'remove')}
+                    disabled={resolvingId === flag.id}
+                    className="px-3 py-1 text-sm text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {flags.length < total && (
+        <div className="text-center mt-3">
+          <button
+            className="text-sm px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            onClick={() => fetchFlags(flags.length)}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlaggedMessageQueue;
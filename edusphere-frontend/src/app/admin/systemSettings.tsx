@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import type { JSX } from 'react';
+import { SettingsService, DEFAULT_STORAGE_SETTINGS, DEFAULT_MODERATION_SETTINGS } from '../../services/settings';
+import type { StorageSettings, ModerationSettings } from '../../services/settings';
+import FlaggedMessageQueue from './components/FlaggedMessageQueue';
 // import useAuth from "../../contexts/useAuth";
 
 /**
@@ -39,15 +42,8 @@ interface SystemSettings {
     smtpPassword: string;
     smtpEncryption: 'none' | 'ssl' | 'tls';
   };
-  storage: {
-    maxFileSize: number;
-    allowedFileTypes: string[];
-    storageQuota: number;
-    backupFrequency: 'daily' | 'weekly' | 'monthly';
-    backupRetention: number;
-    cloudStorageEnabled: boolean;
-    cloudStorageProvider: 'aws' | 'gcp' | 'azure';
-  };
+  storage: StorageSettings;
+  moderation: ModerationSettings;
   performance: {
     cacheEnabled: boolean;
     cacheTtl: number;
@@ -122,15 +118,16 @@ const SystemSettings: React.FC = () => {
             smtpPassword: '',
             smtpEncryption: 'tls'
           },
-          storage: {
-            maxFileSize: 10,
-            allowedFileTypes: ['pdf', 'doc', 'docx', 'ppt', 'pptx', 'jpg', 'png', 'gif'],
-            storageQuota: 100,
-            backupFrequency: 'daily',
-            backupRetention: 30,
-            cloudStorageEnabled: false,
-            cloudStorageProvider: 'aws'
-          },
+          // Storage limits are enforced on uploads, so they come from the server
+          storage: await SettingsService.getStorageSettings().catch((error) => {
+            console.error('Failed to fetch storage settings:', error);
+            return DEFAULT_STORAGE_SETTINGS;
+          }),
+          // The chat composer applies these rules as well, so they come from the server
+          moderation: await SettingsService.getModerationSettings().catch((error) => {
+            console.error('Failed to fetch moderation settings:', error);
+            return DEFAULT_MODERATION_SETTINGS;
+          }),
           performance: {
             cacheEnabled: true,
             cacheTtl: 3600,
@@ -179,8 +176,6 @@ const SystemSettings: React.FC = () => {
    * Handle array input changes (for allowed file types)
    * Time Complexity: O(n) where n is array length
    */
-  // Future feature for array-based settings
-  /*
   const handleArrayInputChange = (
     category: keyof SystemSettings,
     field: string,
@@ -199,7 +194,6 @@ const SystemSettings: React.FC = () => {
     }));
     setHasChanges(true);
   };
-  */
 
   /**
    * Save settings to server
@@ -210,7 +204,10 @@ const SystemSettings: React.FC = () => {
 
     setIsSaving(true);
     try {
-      // Simulate API call
+      await SettingsService.updateStorageSettings(settings.storage);
+      await SettingsService.updateModerationSettings(settings.moderation);
+
+      // Simulate API call for the remaining categories
       await new Promise(resolve => setTimeout(resolve, 1500));
       
       // In real implementation, this would send settings to server
@@ -265,6 +262,7 @@ const SystemSettings: React.FC = () => {
       { key: 'security', label: 'Security', icon: '🔒' },
       { key: 'notifications', label: 'Notifications', icon: '📧' },
       { key: 'storage', label: 'Storage', icon: '💾' },
+      { key: 'moderation', label: 'Moderation', icon: '🛡️' },
       { key: 'performance', label: 'Performance', icon: '⚡' }
     ];
 
@@ -526,6 +524,271 @@ const SystemSettings: React.FC = () => {
     </div>
   );
 
+  /**
+   * Render storage settings tab
+   * Time Complexity: O(n) where n is the number of allowed file types
+   */
+  const renderStorageSettings = (): JSX.Element => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Max File Size (MB)
+        </label>
+        <input
+          type="number"
+          min="1"
+          max="1024"
+          value={settings?.storage.maxFileSize || 10}
+          onChange={(e) => handleInputChange('storage', 'maxFileSize', parseInt(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Storage Quota (GB)
+        </label>
+        <input
+          type="number"
+          min="1"
+          value={settings?.storage.storageQuota || 100}
+          onChange={(e) => handleInputChange('storage', 'storageQuota', parseInt(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+      </div>
+
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Allowed File Types
+        </label>
+        <input
+          type="text"
+          defaultValue={settings?.storage.allowedFileTypes.join(', ') || ''}
+          onBlur={(e) => handleArrayInputChange('storage', 'allowedFileTypes', e.target.value)}
+          placeholder="pdf, docx, jpg, png, mp4"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+        <p className="mt-1 text-xs text-gray-500">Comma-separated file extensions users may upload in chat rooms</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Backup Frequency
+        </label>
+        <select
+          value={settings?.storage.backupFrequency || 'daily'}
+          onChange={(e) => handleInputChange('storage', 'backupFrequency', e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="daily">Daily</option>
+          <option value="weekly">Weekly</option>
+          <option value="monthly">Monthly</option>
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Backup Retention (days)
+        </label>
+        <input
+          type="number"
+          min="1"
+          max="365"
+          value={settings?.storage.backupRetention || 30}
+          onChange={(e) => handleInputChange('storage', 'backupRetention', parseInt(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="cloudStorageEnabled"
+            checked={settings?.storage.cloudStorageEnabled || false}
+            onChange={(e) => handleInputChange('storage', 'cloudStorageEnabled', e.target.checked)}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <label htmlFor="cloudStorageEnabled" className="ml-2 block text-sm text-gray-900">
+            Enable Cloud Storage
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Cloud Storage Provider
+        </label>
+        <select
+          value={settings?.storage.cloudStorageProvider || 'aws'}
+          onChange={(e) => handleInputChange('storage', 'cloudStorageProvider', e.target.value)}
+          disabled={!settings?.storage.cloudStorageEnabled}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+        >
+          <option value="aws">Amazon S3</option>
+          <option value="gcp">Google Cloud Storage</option>
+          <option value="azure">Azure Blob Storage</option>
+        </select>
+      </div>
+    </div>
+  );
+
+  /**
+   * Render chat moderation settings tab
+   * Time Complexity: O(n) where n is the number of blocked words
+   */
+  const renderModerationSettings = (): JSX.Element => (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Blocked Words
+          </label>
+          <textarea
+            defaultValue={settings?.moderation.blockedWords.join(', ') || ''}
+            onBlur={(e) => handleArrayInputChange('moderation', 'blockedWords', e.target.value)}
+            rows={3}
+            placeholder="word, another word, a phrase"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <p className="mt-1 text-xs text-gray-500">Comma-separated words and phrases, matched as whole words regardless of case</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            When a Blocked Word Is Found
+          </label>
+          <select
+            value={settings?.moderation.blockedWordAction || 'block'}
+            onChange={(e) => handleInputChange('moderation', 'blockedWordAction', e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="block">Block the message</option>
+            <option value="flag">Send it and queue it for review</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="md:col-span-2">
+          <h3 className="text-lg font-medium text-gray-900">Spam Protection</h3>
+          <p className="text-sm text-gray-500">Limits apply to each user across all rooms.</p>
+        </div>
+
+        <div className="md:col-span-2 flex items-center">
+          <input
+            type="checkbox"
+            id="rateLimitEnabled"
+            checked={settings?.moderation.rateLimitEnabled || false}
+            onChange={(e) => handleInputChange('moderation', 'rateLimitEnabled', e.target.checked)}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <label htmlFor="rateLimitEnabled" className="ml-2 block text-sm text-gray-900">
+            Limit How Fast Users Can Post
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Messages per Window
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={settings?.moderation.rateLimitMessages || 10}
+            onChange={(e) => handleInputChange('moderation', 'rateLimitMessages', parseInt(e.target.value))}
+            disabled={!settings?.moderation.rateLimitEnabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Window (seconds)
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={settings?.moderation.rateLimitWindow || 30}
+            onChange={(e) => handleInputChange('moderation', 'rateLimitWindow', parseInt(e.target.value))}
+            disabled={!settings?.moderation.rateLimitEnabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+          />
+        </div>
+
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="duplicateDetection"
+            checked={settings?.moderation.duplicateDetection || false}
+            onChange={(e) => handleInputChange('moderation', 'duplicateDetection', e.target.checked)}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <label htmlFor="duplicateDetection" className="ml-2 block text-sm text-gray-900">
+            Reject Duplicate Messages
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Duplicate Window (seconds)
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={settings?.moderation.duplicateWindow || 60}
+            onChange={(e) => handleInputChange('moderation', 'duplicateWindow', parseInt(e.target.value))}
+            disabled={!settings?.moderation.duplicateDetection}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+          />
+        </div>
+
+        <div className="md:col-span-2 flex items-center">
+          <input
+            type="checkbox"
+            id="linkFloodEnabled"
+            checked={settings?.moderation.linkFloodEnabled || false}
+            onChange={(e) => handleInputChange('moderation', 'linkFloodEnabled', e.target.checked)}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <label htmlFor="linkFloodEnabled" className="ml-2 block text-sm text-gray-900">
+            Limit Links
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Links per Window
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={settings?.moderation.linkFloodLimit || 5}
+            onChange={(e) => handleInputChange('moderation', 'linkFloodLimit', parseInt(e.target.value))}
+            disabled={!settings?.moderation.linkFloodEnabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Link Window (seconds)
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={settings?.moderation.linkFloodWindow || 60}
+            onChange={(e) => handleInputChange('moderation', 'linkFloodWindow', parseInt(e.target.value))}
+            disabled={!settings?.moderation.linkFloodEnabled}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 disabled:bg-gray-100"
+          />
+        </div>
+      </div>
+
+      <FlaggedMessageQueue />
+    </div>
+  );
+
   /**
    * Render current tab content
    * Time Complexity: O(1)
@@ -543,11 +806,9 @@ const SystemSettings: React.FC = () => {
           </div>
         );
       case 'storage':
-        return (
-          <div className="text-center py-8">
-            <p className="text-gray-500">Storage settings panel coming soon...</p>
-          </div>
-        );
+        return renderStorageSettings();
+      case 'moderation':
+        return renderModerationSettings();
       case 'performance':
         return (
           <div className="text-center py-8">
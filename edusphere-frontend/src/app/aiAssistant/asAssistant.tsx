@@ -1,22 +1,197 @@
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import useAuth from '../../contexts/useAuth';
+import { useAIAssistant } from './hooks/useAIAssistant';
+import { useAISessions } from './hooks/useAISessions';
+import AIQueryTurn from './components/AIQueryTurn';
+import AISessionList from './components/AISessionList';
+import { getResponseText } from './utils/response';
+import { UNSORTED_SESSION_ID } from './utils/sessions';
 
+/**
+ * Conversations with the AI assistant
+ * Sessions are listed on the left; without a selected session the first question starts one.
+ * Questions asked before sessions existed are kept, read-only, under "Earlier questions".
+ */
 const AiAssistant: React.FC = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [input, setInput] = useState<string>('');
+  const userId = user?.id?.toString();
+  const {
+    sessions,
+    isLoading: isLoadingSessions,
+    error: sessionsError,
+    createSession,
+    updateSession,
+    deleteSession,
+    touchSession,
+  } = useAISessions(userId);
+  const {
+    queries,
+    pending,
+    isLoadingHistory,
+    historyError,
+    hasMore,
+    loadMore,
+    reloadHistory,
+    submitQuery,
+    retryQuery,
+    stopQuery,
+    discardQuery,
+  } = useAIAssistant(userId, sessionId, {
+    createSession,
+    onSessionCreated: session => navigate(`/app/ai-assistant/${session.id}`, { replace: true }),
+    onAnswered: touchSession,
+  });
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Follow the conversation as questions are asked, answers stream in and later questions load
+  const latestKey = `${queries[queries.length - 1]?.id ?? ''}:${pending.map(p => `${p.id}-${p.status}-${p.partial.length}`).join(',')}`;
+  useEffect(() => {
+    const pane = scrollRef.current;
+    if (pane) pane.scrollTop = pane.scrollHeight;
+  }, [latestKey]);
+
+  const streaming = pending.find(p => p.status === 'pending');
+  const activeSession = sessions.find(s => s.id === sessionId);
+  const isUnsorted = sessionId === UNSORTED_SESSION_ID;
+
+  const handleDelete = async (id: string): Promise<void> => {
+    await deleteSession(id);
+    if (id === sessionId) navigate('/app/ai-assistant');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || streaming) return;
+    submitQuery(input);
+    setInput('');
+  };
+
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-lg shadow-sm p-6">
-        <h1 className="text-2xl font-bold text-gray-900 mb-6">AI Assistant</h1>
-        <div className="bg-gray-50 rounded-lg p-4 h-96 mb-4">
-          <p className="text-gray-600">AI conversation will appear here...</p>
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">AI Assistant</h1>
+          <p className="text-gray-600">Ask questions about your studies; follow-ups remember the rest of the conversation.</p>
         </div>
-        <div className="flex gap-2">
-          <input
-            type="text"
-            placeholder="Ask me anything about your studies..."
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-          />
-          <button className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 transition-colors">
-            Ask AI
-          </button>
+
+        {sessionsError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <span className="text-red-800">{sessionsError}</span>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-4">
+          <aside className="w-full md:w-72 flex-shrink-0 border border-gray-200 rounded-lg max-h-64 md:max-h-[36rem]">
+            <AISessionList
+              sessions={sessions}
+              activeSessionId={sessionId}
+              isLoading={isLoadingSessions}
+              onSelect={id => navigate(`/app/ai-assistant/${id}`)}
+              onNew={() => navigate('/app/ai-assistant')}
+              onUpdate={updateSession}
+              onDelete={handleDelete}
+            />
+          </aside>
+          <div className="flex-1 min-w-0">
+            <h2 className="text-lg font-semibold text-gray-800 mb-2 truncate">
+              {isUnsorted ? 'Earlier questions' : activeSession?.title || (sessionId ? 'Conversation' : 'New conversation')}
+            </h2>
+            <div ref={scrollRef} className="bg-gray-50 rounded-lg p-4 h-96 mb-4 overflow-y-auto space-y-6">
+              {historyError ? (
+                <div className="flex items-center justify-between gap-2 bg-red-50 border border-red-200 rounded-lg p-3">
+                  <span className="text-sm text-red-800">{historyError}</span>
+                  <button className="text-xs px-2 py-1 rounded bg-white border border-red-300 text-red-700 hover:bg-red-100" onClick={reloadHistory}>
+                    Retry
+                  </button>
+                </div>
+              ) : null}
+
+              {isLoadingHistory && !queries.length && !historyError ? (
+                <p className="text-gray-400">Loading your conversation...</p>
+              ) : !queries.length && !pending.length && !historyError && !hasMore ? (
+                <p className="text-gray-600">
+                  {isUnsorted
+                    ? 'No earlier questions. Questions you ask now are kept in conversations.'
+                    : 'Ask a question to get started. Your conversation will appear here.'}
+                </p>
+              ) : null}
+
+              {queries.map(q => (
+                <AIQueryTurn
+                  key={q.id}
+                  question={q.query}
+                  answer={getResponseText(q.response)}
+                  askedAt={q.createdAt}
+                  status="answered"
+                />
+              ))}
+              {hasMore && !historyError && (
+                <div className="text-center">
+                  <button
+                    className="text-xs px-3 py-1 rounded-full border border-gray-300 text-gray-600 hover:bg-white disabled:opacity-50"
+                    onClick={loadMore}
+                    disabled={isLoadingHistory}
+                  >
+                    {isLoadingHistory ? 'Loading...' : 'Load later questions'}
+                  </button>
+                </div>
+              )}
+              {pending.map(p => (
+                <AIQueryTurn
+                  key={p.id}
+                  question={p.query}
+                  answer={p.partial}
+                  status={p.status}
+                  error={p.error}
+                  onStop={() => stopQuery(p.id)}
+                  onRetry={() => retryQuery(p.id)}
+                  onDiscard={() => discardQuery(p.id)}
+                />
+              ))}
+            </div>
+            {isUnsorted ? (
+              <div className="flex items-center justify-between gap-2 bg-gray-50 border border-gray-200 rounded-md px-3 py-2">
+                <span className="text-sm text-gray-600">These questions were asked before conversations. Start a new one to ask more.</span>
+                <button
+                  onClick={() => navigate('/app/ai-assistant')}
+                  className="flex-shrink-0 bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 transition-colors"
+                >
+                  New conversation
+                </button>
+              </div>
+            ) : (
+              <form className="flex gap-2" onSubmit={handleSubmit}>
+                <input
+                  type="text"
+                  placeholder="Ask me anything about your studies..."
+                  value={input}
+                  onChange={e => setInput(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                {streaming ? (
+                  <button
+                    type="button"
+                    onClick={() => stopQuery(streaming.id)}
+                    className="bg-gray-700 text-white px-4 py-2 rounded-md hover:bg-gray-800 transition-colors"
+                  >
+                    ■ Stop
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+                  >
+                    Ask AI
+                  </button>
+                )}
+              </form>
+            )}
+          </div>
         </div>
       </div>
     </div>
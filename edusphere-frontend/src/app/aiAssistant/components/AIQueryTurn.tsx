@@ -0,0 +1,63 @@
+import React from 'react';
+import MarkdownContent from '../../chatRoom/components/MarkdownContent';
+
+interface AIQueryTurnProps {
+  question: string;
+  /** Markdown answer; partial while streaming or after being stopped */
+  answer?: string;
+  askedAt?: string;
+  status: 'answered' | 'pending' | 'stopped' | 'failed';
+  error?: string;
+  onStop?: () => void;
+  onRetry?: () => void;
+  onDiscard?: () => void;
+}
+
+/**
+ * One question to the assistant and its answer
+ */
+const AIQueryTurn: React.FC<AIQueryTurnProps> = ({ question, answer, askedAt, status, error, onStop, onRetry, onDiscard }) => (
+  <div className="space-y-2">
+    <div className="flex justify-end">
+      <div className="max-w-[80%] bg-primary-600 text-white rounded-lg rounded-br-none px-4 py-2">
+        <p className="whitespace-pre-wrap break-words">{question}</p>
+        {askedAt && (
+          <p className="text-xs text-primary-100 text-right mt-1">{new Date(askedAt).toLocaleString()}</p>
+        )}
+      </div>
+    </div>
+    <div className="flex items-start gap-2">
+      <span className="w-8 h-8 flex-shrink-0 rounded-full bg-primary-100 flex items-center justify-center" aria-hidden="true">🤖</span>
+      <div className="max-w-[80%] bg-white border border-gray-200 rounded-lg rounded-tl-none px-4 py-2">
+        {status === 'pending' && !answer ? (
+          <p className="text-gray-400 animate-pulse">Thinking...</p>
+        ) : status === 'failed' ? (
+          <p className="text-red-600 text-sm">{error || 'The assistant could not answer.'}</p>
+        ) : (
+          <div aria-live={status === 'pending' ? 'polite' : undefined}>
+            <MarkdownContent content={answer || '_No answer_'} />
+            {status === 'pending' && <span className="inline-block w-2 h-4 bg-gray-400 animate-pulse align-middle" aria-hidden="true" />}
+            {status === 'stopped' && <p className="text-xs text-gray-400 italic mt-1">Stopped</p>}
+          </div>
+        )}
+        {status === 'pending' && onStop && (
+          <button className="mt-2 text-xs px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-100" onClick={onStop}>
+            ■ Stop
+          </button>
+        )}
+        {(status === 'failed' || status === 'stopped') && (
+          <div className="flex gap-2 mt-2">
+            {onRetry && (
+              <button className="text-xs px-2 py-1 rounded bg-primary-600 text-white hover:bg-primary-700" onClick={onRetry}>Retry</button>
+            )}
+            {onDiscard && (
+              <button className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300" onClick={onDiscard}>Discard</button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default AIQueryTurn;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { UNSORTED_SESSION_ID, groupSessionsByFolder } from '../utils/sessions';
+import type { AISession } from '../../../contexts/authTypes';
+import type { UpdateAISessionData } from '../../../services/ai';
+
+interface AISessionListProps {
+  sessions: AISession[];
+  activeSessionId?: string;
+  isLoading: boolean;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+  onUpdate: (sessionId: string, data: UpdateAISessionData) => Promise<void>;
+  onDelete: (sessionId: string) => Promise<void>;
+}
+
+/**
+ * Format the time of the latest activity: time for today, date otherwise
+ */
+const formatActivity = (dateString: string): string => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+/**
+ * AI sessions grouped by folder, with rename, filing, archive and delete
+ * Questions asked without a session are listed last, under "Earlier questions".
+ */
+const AISessionList: React.FC<AISessionListProps> = ({
+  sessions,
+  activeSessionId,
+  isLoading,
+  onSelect,
+  onNew,
+  onUpdate,
+  onDelete,
+}) => {
+  const [showArchived, setShowArchived] = useState<boolean>(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState<string>('');
+  const [folder, setFolder] = useState<string>('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const visible = sessions.filter(s => s.archived === showArchived);
+  const archivedCount = sessions.filter(s => s.archived).length;
+  const folders = [...new Set(sessions.map(s => s.folder?.trim()).filter((f): f is string => !!f))].sort();
+
+  const runAction = async (action: () => Promise<void>): Promise<void> => {
+    setActionError(null);
+    try {
+      await action();
+    } catch (err) {
+      setActionError((err as { message?: string } | null)?.message || 'Failed to update the conversation');
+    }
+  };
+
+  const startEditing = (session: AISession): void => {
+    setEditingId(session.id);
+    setTitle(session.title);
+    setFolder(session.folder || '');
+  };
+
+  const saveEdit = (e: React.FormEvent, sessionId: string): void => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    runAction(async () => {
+      await onUpdate(sessionId, { title: title.trim(), folder: folder.trim() || null });
+      setEditingId(null);
+    });
+  };
+
+  const handleDelete = (session: AISession): void => {
+    if (window.confirm(`Delete "${session.title}" and all of its questions? This action cannot be undone.`)) {
+      runAction(() => onDelete(session.id));
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-gray-200">
+        <button
+          onClick={onNew}
+          className="w-full bg-primary-600 text-white px-3 py-2 rounded-md text-sm hover:bg-primary-700 transition-colors"
+        >
+          + New conversation
+        </button>
+      </div>
+
+      {actionError && <p className="text-xs text-red-600 px-3 pt-2">{actionError}</p>}
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading && !sessions.length ? (
+          <p className="text-sm text-gray-400 p-4">Loading conversations...</p>
+        ) : !visible.length ? (
+          <p className="text-sm text-gray-500 p-4">
+            {showArchived ? 'No archived conversations.' : 'No conversations yet. Ask a question to start one.'}
+          </p>
+        ) : (
+          groupSessionsByFolder(visible).map(group => (
+            <div key={group.folder ?? ''}>
+              {group.folder && (
+                <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">📁 {group.folder}</p>
+              )}
+              <ul className="divide-y divide-gray-100">
+                {group.sessions.map(session => {
+                  const isActive = session.id === activeSessionId;
+                  return (
+                    <li key={session.id} className={`group ${isActive ? 'bg-primary-50' : 'hover:bg-gray-50'}`}>
+                      {editingId === session.id ? (
+                        <form className="p-3 space-y-2" onSubmit={e => saveEdit(e, session.id)}>
+                          <input
+                            autoFocus
+                            value={title}
+                            onChange={e => setTitle(e.target.value)}
+                            placeholder="Title"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary-500"
+                          />
+                          <input
+                            value={folder}
+                            onChange={e => setFolder(e.target.value)}
+                            placeholder="Folder (optional)"
+                            list="ai-session-folders"
+                            className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-primary-500"
+                          />
+                          <div className="flex gap-2">
+                            <button type="submit" disabled={!title.trim()} className="text-xs px-2 py-1 rounded bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50">
+                              Save
+                            </button>
+                            <button type="button" onClick={() => setEditingId(null)} className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300">
+                              Cancel
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <div className="flex items-center gap-1 pr-2">
+                          <button className="flex-1 min-w-0 px-4 py-3 text-left" onClick={() => onSelect(session.id)}>
+                            <span className={`block truncate text-sm ${isActive ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>
+                              {session.title}
+                            </span>
+                            <span className="text-xs text-gray-400">{formatActivity(session.updatedAt)}</span>
+                          </button>
+                          <div className={`flex-shrink-0 gap-1 ${isActive ? 'flex' : 'hidden group-hover:flex group-focus-within:flex'}`}>
+                            <button className="p-1 text-xs rounded hover:bg-gray-200" title="Rename or move to folder" onClick={() => startEditing(session)}>
+                              ✏️
+                            </button>
+                            <button
+                              className="p-1 text-xs rounded hover:bg-gray-200"
+                              title={session.archived ? 'Restore' : 'Archive'}
+                              onClick={() => runAction(() => onUpdate(session.id, { archived: !session.archived }))}
+                            >
+                              {session.archived ? '📤' : '🗄️'}
+                            </button>
+                            <button className="p-1 text-xs rounded hover:bg-red-100" title="Delete" onClick={() => handleDelete(session)}>
+                              🗑️
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))
+        )}
+        {!showArchived && (
+          <button
+            className={`w-full px-4 py-3 text-left border-t border-gray-100 ${UNSORTED_SESSION_ID === activeSessionId ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+            onClick={() => onSelect(UNSORTED_SESSION_ID)}
+          >
+            <span className={`block truncate text-sm ${UNSORTED_SESSION_ID === activeSessionId ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>
+              🗂️ Earlier questions
+            </span>
+            <span className="text-xs text-gray-400">Asked before conversations</span>
+          </button>
+        )}
+        <datalist id="ai-session-folders">
+          {folders.map(f => <option key={f} value={f} />)}
+        </datalist>
+      </div>
+
+      {(archivedCount > 0 || showArchived) && (
+        <div className="p-3 border-t border-gray-200">
+          <button className="text-xs text-primary-600 hover:underline" onClick={() => setShowArchived(prev => !prev)}>
+            {showArchived ? '← Back to conversations' : `Archived (${archivedCount})`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AISessionList;
@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AIService } from '../../../services/ai';
+import { UNSORTED_SESSION_ID, buildContext, generateSessionTitle } from '../utils/sessions';
+import type { AIQuery, AISession } from '../../../contexts/authTypes';
+
+/** Number of past queries requested per history page */
+const PAGE_SIZE = 20;
+
+/**
+ * A question whose answer is still streaming, or was stopped or failed part way
+ */
+export interface PendingQuery {
+  id: string;
+  query: string;
+  status: 'pending' | 'stopped' | 'failed';
+  /** The answer received so far */
+  partial: string;
+  error?: string;
+}
+
+const isAbort = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+export interface AIAssistantOptions {
+  /** Start a session for a question asked outside of one */
+  createSession: (title: string) => Promise<AISession>;
+  onSessionCreated?: (session: AISession) => void;
+  /** Called after a question of the session has been answered */
+  onAnswered?: (sessionId: string) => void;
+}
+
+const byCreatedAt = (a: AIQuery, b: AIQuery): number =>
+  new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+/**
+ * Add a page of history to the loaded queries, oldest first and without duplicates
+ */
+const mergeQueries = (loaded: AIQuery[], page: AIQuery[]): AIQuery[] => {
+  const byId = new Map<string, AIQuery>();
+  loaded.forEach(q => byId.set(q.id, q));
+  page.forEach(q => byId.set(q.id, q));
+  return [...byId.values()].sort(byCreatedAt);
+};
+
+/**
+ * One conversation with the AI assistant
+ * Answered queries come from the server oldest-first and later pages are loaded on demand;
+ * answers stream in token by token, and questions still in flight, stopped or failed are kept
+ * separately so they can be retried. Without a session the first question starts one, titled
+ * after the question. A follow-up first loads the rest of the session, so its context holds the
+ * latest turns and its answer follows them. The unsorted pseudo-session lists the questions asked
+ * without a session and takes no new ones.
+ */
+export function useAIAssistant(userId: string | undefined, sessionId: string | undefined, options: AIAssistantOptions): {
+  queries: AIQuery[];
+  pending: PendingQuery[];
+  isLoadingHistory: boolean;
+  historyError: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  reloadHistory: () => Promise<void>;
+  submitQuery: (query: string) => Promise<void>;
+  retryQuery: (id: string) => Promise<void>;
+  stopQuery: (id: string) => void;
+  discardQuery: (id: string) => void;
+} {
+  const [queries, setQueries] = useState<AIQuery[]>([]);
+  const [pending, setPending] = useState<PendingQuery[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(true);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const queriesRef = useRef<AIQuery[]>([]);
+  // Offset of the next page; unsorted pages are filtered, so it can run ahead of the queries shown
+  const nextSkip = useRef<number>(0);
+  const hasMoreRef = useRef<boolean>(false);
+  const isMounted = useRef<boolean>(true);
+  const controllers = useRef<Map<string, AbortController>>(new Map());
+  const sessionRef = useRef<string | undefined>(sessionId);
+  // Session started by the first question, whose turn must survive the switch to it
+  const createdSessionId = useRef<string | null>(null);
+  const optionsRef = useRef<AIAssistantOptions>(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    queriesRef.current = queries;
+  }, [queries]);
+
+  // Leaving the page stops any answer still streaming
+  useEffect(() => {
+    isMounted.current = true;
+    const activeControllers = controllers.current;
+    return () => {
+      isMounted.current = false;
+      activeControllers.forEach(controller => controller.abort());
+      activeControllers.clear();
+    };
+  }, []);
+
+  // Resolves to the fetched page, or null when it failed or the session changed meanwhile
+  const fetchPage = useCallback(async (skip: number): Promise<AIQuery[] | null> => {
+    if (!userId || !sessionId) {
+      setIsLoadingHistory(false);
+      return null;
+    }
+    setIsLoadingHistory(true);
+    setHistoryError(null);
+    try {
+      const fetched = (sessionId === UNSORTED_SESSION_ID
+        ? await AIService.getUserQueries(userId, skip, PAGE_SIZE)
+        : await AIService.getSessionQueries(sessionId, skip, PAGE_SIZE)) || [];
+      if (!isMounted.current || sessionRef.current !== sessionId) return null;
+      const page = sessionId === UNSORTED_SESSION_ID ? fetched.filter(q => !q.sessionId) : fetched;
+      nextSkip.current = skip + fetched.length;
+      setQueries(prev => mergeQueries(skip ? prev : [], page));
+      hasMoreRef.current = fetched.length === PAGE_SIZE;
+      setHasMore(hasMoreRef.current);
+      return page;
+    } catch (err) {
+      if (isMounted.current) {
+        setHistoryError(err instanceof Error ? err.message : 'Failed to load your previous questions');
+      }
+      return null;
+    } finally {
+      if (isMounted.current) setIsLoadingHistory(false);
+    }
+  }, [userId, sessionId]);
+
+  // Switching sessions stops answers still streaming in the previous one
+  useEffect(() => {
+    sessionRef.current = sessionId;
+    if (sessionId && sessionId === createdSessionId.current) {
+      createdSessionId.current = null;
+      return;
+    }
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+    setPending([]);
+    setQueries([]);
+    setHasMore(false);
+    hasMoreRef.current = false;
+    nextSkip.current = 0;
+    fetchPage(0);
+  }, [sessionId, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || isLoadingHistory) return;
+    await fetchPage(nextSkip.current);
+  }, [hasMore, isLoadingHistory, fetchPage]);
+
+  const reloadHistory = useCallback(async () => {
+    await fetchPage(0);
+  }, [fetchPage]);
+
+  // The whole session, loading the pages not fetched yet
+  const loadRemaining = useCallback(async (): Promise<AIQuery[]> => {
+    let history = queriesRef.current;
+    while (hasMoreRef.current) {
+      const page = await fetchPage(nextSkip.current);
+      if (!page) break;
+      history = mergeQueries(history, page);
+    }
+    return history;
+  }, [fetchPage]);
+
+  const run = useCallback(async (entry: PendingQuery) => {
+    if (!userId) return;
+    const controller = new AbortController();
+    controllers.current.set(entry.id, controller);
+    try {
+      let targetSession = sessionRef.current;
+      if (!targetSession) {
+        const session = await optionsRef.current.createSession(generateSessionTitle(entry.query));
+        if (controller.signal.aborted) throw new DOMException('The request was aborted', 'AbortError');
+        targetSession = session.id;
+        createdSessionId.current = session.id;
+        sessionRef.current = session.id;
+        optionsRef.current.onSessionCreated?.(session);
+      }
+      const context = buildContext(await loadRemaining());
+      if (controller.signal.aborted) throw new DOMException('The request was aborted', 'AbortError');
+      const answered = await AIService.streamQuery({
+        userId,
+        query: entry.query,
+        sessionId: targetSession,
+        ...(context.length ? { context } : {}),
+      }, {
+        signal: controller.signal,
+        onToken: token => {
+          if (!isMounted.current) return;
+          setPending(prev => prev.map(p => (p.id === entry.id ? { ...p, partial: p.partial + token } : p)));
+        },
+      });
+      if (!isMounted.current) return;
+      optionsRef.current.onAnswered?.(targetSession);
+      if (sessionRef.current !== targetSession) return;
+      setPending(prev => prev.filter(p => p.id !== entry.id));
+      setQueries(prev => [...prev.filter(q => q.id !== answered.id), answered]);
+    } catch (err) {
+      if (!isMounted.current) return;
+      setPending(prev => prev.map(p => (
+        p.id !== entry.id ? p
+          : isAbort(err) ? { ...p, status: 'stopped' }
+            // Both Errors and API error payloads carry a message
+            : { ...p, status: 'failed', error: (err as { message?: string } | null)?.message || 'The assistant could not answer' }
+      )));
+    } finally {
+      controllers.current.delete(entry.id);
+    }
+  }, [userId, loadRemaining]);
+
+  const submitQuery = useCallback(async (query: string) => {
+    if (!query.trim() || !userId || sessionRef.current === UNSORTED_SESSION_ID) return;
+    const entry: PendingQuery = { id: `pending-${Date.now()}`, query: query.trim(), status: 'pending', partial: '' };
+    setPending(prev => [...prev, entry]);
+    await run(entry);
+  }, [userId, run]);
+
+  const retryQuery = useCallback(async (id: string) => {
+    const entry = pending.find(p => p.id === id);
+    if (!entry) return;
+    const retried: PendingQuery = { ...entry, status: 'pending', partial: '', error: undefined };
+    setPending(prev => prev.map(p => (p.id === id ? retried : p)));
+    await run(retried);
+  }, [pending, run]);
+
+  const stopQuery = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+  }, []);
+
+  const discardQuery = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setPending(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  return {
+    queries,
+    pending,
+    isLoadingHistory,
+    historyError,
+    hasMore,
+    loadMore,
+    reloadHistory,
+    submitQuery,
+    retryQuery,
+    stopQuery,
+    discardQuery,
+  };
+}
+
+export default useAIAssistant;
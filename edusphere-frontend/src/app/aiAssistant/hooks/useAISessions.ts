@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AIService } from '../../../services/ai';
+import type { UpdateAISessionData } from '../../../services/ai';
+import type { AISession } from '../../../contexts/authTypes';
+
+/**
+ * The user's AI assistant sessions
+ * Archived sessions are loaded too and filtered by the list.
+ */
+export function useAISessions(userId: string | undefined): {
+  sessions: AISession[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  createSession: (title: string) => Promise<AISession>;
+  updateSession: (sessionId: string, data: UpdateAISessionData) => Promise<void>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  touchSession: (sessionId: string) => void;
+} {
+  const [sessions, setSessions] = useState<AISession[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    setError(null);
+    try {
+      setSessions((await AIService.getUserSessions(userId)) || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your conversations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const createSession = useCallback(async (title: string) => {
+    if (!userId) throw new Error('You must be signed in to ask the assistant');
+    const session = await AIService.createSession({ userId, title });
+    setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+    return session;
+  }, [userId]);
+
+  const updateSession = useCallback(async (sessionId: string, data: UpdateAISessionData) => {
+    const updated = await AIService.updateSession(sessionId, data);
+    setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, ...updated } : s)));
+  }, []);
+
+  const deleteSession = useCallback(async (sessionId: string) => {
+    await AIService.deleteSession(sessionId);
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+  }, []);
+
+  // Move a session to the top of the list after a new answer, without refetching
+  const touchSession = useCallback((sessionId: string) => {
+    const now = new Date().toISOString();
+    setSessions(prev => prev.map(s => (s.id === sessionId ? { ...s, updatedAt: now } : s)));
+  }, []);
+
+  return { sessions, isLoading, error, refresh, createSession, updateSession, deleteSession, touchSession };
+}
+
+export default useAISessions;
@@ -0,0 +1,36 @@
+/**
+ * Helpers for reading AI query responses
+ */
+
+/** Keys the answer text is commonly stored under, in order of preference */
+const TEXT_KEYS = ['answer', 'text', 'content', 'message', 'response', 'output'];
+
+const findText = (value: unknown, depth: number): string | null => {
+  if (typeof value === 'string') return value;
+  if (!value || typeof value !== 'object' || depth > 3) return null;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const text = findText(item, depth + 1);
+      if (text) return text;
+    }
+    return null;
+  }
+  const record = value as Record<string, unknown>;
+  for (const key of TEXT_KEYS) {
+    const text = findText(record[key], depth + 1);
+    if (text) return text;
+  }
+  // OpenAI-style payloads: { choices: [{ message: { content } }] }
+  return findText(record.choices, depth + 1);
+};
+
+/**
+ * The answer of an AI response as Markdown
+ * Payloads without a recognisable text field are shown as formatted JSON.
+ */
+export const getResponseText = (response: Record<string, unknown> | null | undefined): string => {
+  if (!response) return '';
+  const text = findText(response, 0);
+  if (text) return text;
+  return `\`\`\`json\n${JSON.stringify(response, null, 2)}\n\`\`\``;
+};
@@ -0,0 +1,53 @@
+/**
+ * Helpers for AI assistant sessions
+ */
+
+import { getResponseText } from './response';
+import type { AIQuery, AISession } from '../../../contexts/authTypes';
+import type { AIContextTurn } from '../../../services/ai';
+
+/** Earlier turns sent along with a follow-up question */
+export const MAX_CONTEXT_TURNS = 6;
+/** Pseudo-session listing the questions asked before sessions existed */
+export const UNSORTED_SESSION_ID = 'unsorted';
+/** Longest auto-generated session title */
+const MAX_TITLE_LENGTH = 48;
+
+/**
+ * A session title derived from its first question: the first line without Markdown,
+ * shortened at a word boundary
+ */
+export const generateSessionTitle = (query: string): string => {
+  const firstLine = query.split('\n').map(line => line.trim()).find(Boolean) || '';
+  const plain = firstLine
+    .replace(/[`*_~#>[\]]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!plain) return 'New conversation';
+  if (plain.length <= MAX_TITLE_LENGTH) return plain;
+  const cut = plain.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+};
+
+/**
+ * The latest answered turns of a session, oldest first, to send with a follow-up
+ */
+export const buildContext = (queries: AIQuery[], limit: number = MAX_CONTEXT_TURNS): AIContextTurn[] =>
+  queries.slice(-limit).map(q => ({ query: q.query, answer: getResponseText(q.response) }));
+
+/**
+ * Sessions grouped by folder, unfiled sessions first, each group by latest activity
+ */
+export const groupSessionsByFolder = (sessions: AISession[]): { folder: string | null; sessions: AISession[] }[] => {
+  const groups = new Map<string, AISession[]>();
+  [...sessions]
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .forEach(session => {
+      const folder = session.folder?.trim() || '';
+      groups.set(folder, [...(groups.get(folder) || []), session]);
+    });
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)))
+    .map(([folder, grouped]) => ({ folder: folder || null, sessions: grouped }));
+};
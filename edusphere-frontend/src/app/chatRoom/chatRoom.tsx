@@ -1,230 +1,379 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
 import useAuth from '../../contexts/useAuth';
 import { useChatRoom } from './hooks/useChatRoom';
-import MessageList from './components/MessageList';
-import TypingIndicator from './components/TypingIndicator';
+import ChatTimeline from './components/ChatTimeline';
+import MemberSidebar from './components/MemberSidebar';
+import ConnectionBanner from './components/ConnectionBanner';
+import MediaGallery from './components/MediaGallery';
+import RoomSearchPanel from './components/RoomSearchPanel';
+import RoomAssistantDrawer from './components/RoomAssistantDrawer';
+import PinnedMessagesStrip from './components/PinnedMessagesStrip';
+import ModerateUserModal from './components/ModerateUserModal';
+
+import { usePresence } from '../../hooks/usePresence';
+import { useAttachments } from './hooks/useAttachments';
+import { useModeration } from './hooks/useModeration';
+import { useContentFilter } from './hooks/useContentFilter';
+import { useRoomAssistant } from './hooks/useRoomAssistant';
+import { RestrictionType } from '../../services/moderation';
+import { ASSISTANT_NAME, getAssistantQuestion } from './utils/assistant';
+import { MessageType, UserRole } from '../../contexts/authTypes';
+import type { Message } from '../../contexts/authTypes';
+import type { SendMessageOptions } from './hooks/useChatRoom';
+import { getUserDisplayName } from '../../utils/userUtils';
 
 const ChatRoom: React.FC = () => {
   const { roomId } = useParams<{ roomId: string }>();
-  const { user } = useAuth();
-  const [input, setInput] = useState('');
-  // Only one reaction per message per user
-  const [reactions, setReactions] = useState<{ [key: string]: string }>({});
-  const [replyingTo, setReplyingTo] = useState<string | null>(null);
-  const [editingMsg, setEditingMsg] = useState<string | null>(null);
-  const [editValue, setEditValue] = useState<string>('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, hasMinimumRole } = useAuth();
+  const [showMembers, setShowMembers] = useState<boolean>(true);
+  const [showSearch, setShowSearch] = useState<boolean>(false);
+  const [showAssistant, setShowAssistant] = useState<boolean>(false);
+  const [isAnnouncement, setIsAnnouncement] = useState<boolean>(false);
+  const [activeTab, setActiveTab] = useState<'chat' | 'media'>('chat');
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [moderatingMessage, setModeratingMessage] = useState<Message | null>(null);
+  const [filterNotice, setFilterNotice] = useState<{ text: string; isError: boolean } | null>(null);
+  // Set once the assistant is wired up below; delivery can only happen after the first render
+  const handleDelivered = useRef<(message: Message) => void>(() => {});
+  const chat = useChatRoom(roomId, user?.id?.toString(), user?.username || getUserDisplayName(user), {
+    onDelivered: message => handleDelivered.current(message),
+  });
   const {
     messages,
     isLoading,
-    error,
     roomName,
-    typingUsers,
+    roomCreatorId,
+    assistantEnabled,
+    pinnedMessages,
+    pinMessage,
+    unpinMessage,
+    connectionState,
+    isFallback,
+    reconnect,
+    readReceipts,
+    revealMessage,
     sendMessage,
-    sendTyping,
-  } = useChatRoom(roomId, user?.id?.toString());
-
-  const handleSend = async () => {
-    if (!input.trim()) return;
-    await sendMessage(input);
-    setInput('');
-    sendTyping(false);
-    setReplyingTo(null);
-  };
+  } = chat;
+  const { members, onlineCount, isLoading: isLoadingMembers } = usePresence(roomId);
+  const {
+    restrictions,
+    ownMute,
+    removal,
+    muteUser,
+    unmuteUser,
+    kickUser,
+    banUser,
+  } = useModeration(roomId, user?.id?.toString());
+  const muteNotice = ownMute
+    ? `You have been muted${ownMute.expiresAt ? ` until ${new Date(ownMute.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}` : ''}${ownMute.reason ? `: ${ownMute.reason}` : '.'}`
+    : null;
+  const { check: checkContent, checkEdit, recordSent } = useContentFilter();
+  const {
+    isAnswering: isAssistantAnswering,
+    error: assistantError,
+    ask: askAssistant,
+    dismissError: dismissAssistantError,
+  } = useRoomAssistant({
+    roomName: roomName || roomId || '',
+    userId: user?.id?.toString(),
+    username: user?.username || getUserDisplayName(user),
+    messages,
+    sendMessage,
+  });
+  const roomMembers = useMemo(() => members.map(m => m.user), [members]);
+  const mentionCandidates = useMemo(
+    () => roomMembers.filter(member => !user || String(member.id) !== String(user.id)),
+    [roomMembers, user]
+  );
+  const attachments = useAttachments(roomId, user?.id?.toString());
 
-  const handleReact = (msgKey: string, emoji: string) => {
-    setReactions(prev => ({
-      ...prev,
-      [msgKey]: {
-        ...(prev[msgKey] || {}),
-        [emoji]: ((prev[msgKey]?.[emoji] || 0) + 1)
-      }
-    }));
-  };
+  // Once a message has reached the server, which for a queued one can be a retry or an outbox
+  // flush well after it was sent, it counts towards the filter's limits and questions addressed
+  // to the assistant are answered. Failed sends count for nothing, so they can be resent as is.
+  useEffect(() => {
+    handleDelivered.current = message => {
+      if (message.type === MessageType.ASSISTANT) return;
+      if (message.content.trim()) recordSent(message.content);
+      const question = assistantEnabled ? getAssistantQuestion(message.content) : null;
+      if (question) askAssistant(question, message.parentId);
+    };
+  }, [assistantEnabled, askAssistant, recordSent]);
 
-  const handleCopy = (content: string) => {
-    if (navigator.clipboard) {
-      navigator.clipboard.writeText(content);
+  // Blocked messages stay in the composer so they can be fixed; flagged ones are sent for review
+  const prepareSend = (content: string): Partial<SendMessageOptions> | null => {
+    const verdict = content.trim() ? checkContent(content) : null;
+    if (verdict?.status === 'block') {
+      setFilterNotice({ text: verdict.reason, isError: true });
+      return null;
     }
+    setFilterNotice(verdict?.status === 'flag'
+      ? { text: 'Your message was sent and will be reviewed by a moderator.', isError: false }
+      : null);
+    const type = isAnnouncement ? MessageType.ANNOUNCEMENT : undefined;
+    setIsAnnouncement(false);
+    return { type, flagReason: verdict?.status === 'flag' ? verdict.reason : undefined };
   };
 
-  const handleReply = (msgKey: string, username: string) => {
-    setReplyingTo(msgKey);
-    setInput(`@${username}: `);
-  };
-
-  // Save edited message (local only for now)
-  const handleEditSave = (msgKey: string) => {
-    // In a real app, send to backend here
-    const idx = messages.findIndex(m => (m.id && m.sent_at ? `${m.id}_${m.sent_at}` : m.id || m.sent_at || '') === msgKey);
-    if (idx !== -1) {
-      messages[idx].content = editValue;
+  // Edits go through the same content rules, so a sent message can't be changed into a blocked one
+  const prepareEdit = useCallback((content: string): { flagReason?: string } | null => {
+    const verdict = checkEdit(content);
+    if (verdict.status === 'block') {
+      setFilterNotice({ text: verdict.reason, isError: true });
+      return null;
     }
-    setEditingMsg(null);
-    setEditValue('');
-  };
+    setFilterNotice(verdict.status === 'flag'
+      ? { text: 'Your edit was saved and will be reviewed by a moderator.', isError: false }
+      : null);
+    return { flagReason: verdict.status === 'flag' ? verdict.reason : undefined };
+  }, [checkEdit]);
 
-  // Auto-scroll to bottom when messages change
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  useEffect(() => {
-    if (messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
+  // Thread replies go through the same filter; a blocked reply is rejected back to the thread panel
+  const sendReply = useCallback(async (content: string, options: SendMessageOptions) => {
+    const verdict = checkContent(content);
+    if (verdict.status === 'block') throw new Error(verdict.reason);
+    return sendMessage(content, verdict.status === 'flag' ? { ...options, flagReason: verdict.reason } : options);
+  }, [checkContent, sendMessage]);
+
+  // The room creator, teachers and admins can pin, post announcements and moderate members
+  const canModerate = hasMinimumRole(UserRole.TEACHER) || (!!user && !!roomCreatorId && String(user.id) === roomCreatorId);
+
+  const handleTogglePin = useCallback((messageId: string, pin: boolean) => {
+    if (pin) {
+      pinMessage(messageId);
+    } else {
+      unpinMessage(messageId);
     }
-  }, [messages.length]);
-
-  // Helper to format date group labels
-  const getDateLabel = (date: Date) => {
-    const now = new Date();
-    const msgDay = date.getDate();
-    const msgMonth = date.getMonth();
-    const msgYear = date.getFullYear();
-    const nowDay = now.getDate();
-    const nowMonth = now.getMonth();
-    const nowYear = now.getFullYear();
-    const yesterday = new Date(now);
-    yesterday.setDate(nowDay - 1);
-    if (msgYear === nowYear && msgMonth === nowMonth && msgDay === nowDay) return 'Today';
-    if (msgYear === yesterday.getFullYear() && msgMonth === yesterday.getMonth() && msgDay === yesterday.getDate()) return 'Yesterday';
-    return date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+  }, [pinMessage, unpinMessage]);
+
+  const messagesById = useMemo(() => {
+    const byId: { [id: string]: Message } = {};
+    messages.forEach(m => { byId[m.id] = m; });
+    return byId;
+  }, [messages]);
+
+  // Resolve each member's last-read message to a timestamp; receipts pointing at messages
+  // outside the loaded window are older than everything shown, so they count as unseen
+  const readPositions = useMemo(() => readReceipts
+    .filter(r => !user || String(r.userId) !== String(user.id))
+    .flatMap(r => {
+      const lastRead = messagesById[r.messageId];
+      return lastRead ? [{ userId: String(r.userId), username: r.username, time: new Date(lastRead.sent_at).getTime() }] : [];
+    }), [readReceipts, messagesById, user]);
+
+  const getSeenBy = (msg: Message): string[] => {
+    const sentAt = new Date(msg.sent_at).getTime();
+    return readPositions
+      .filter(r => r.userId !== String(msg.user_id) && r.time >= sentAt)
+      .map(r => r.username);
   };
 
-  // Group messages by date
-  const reversedMessages = [...messages].reverse();
-  const groupedMessages: { label: string, items: typeof messages }[] = [];
-  let lastLabel = '';
-  reversedMessages.forEach(msg => {
-    let label = 'No date';
-    if (msg.sent_at) {
-      const date = new Date(msg.sent_at);
-      if (!isNaN(date.getTime())) {
-        label = getDateLabel(date);
-      }
-    }
-    if (!groupedMessages.length || lastLabel !== label) {
-      groupedMessages.push({ label, items: [msg] });
-      lastLabel = label;
+  const handleModerate = useCallback((message: Message) => setModeratingMessage(message), []);
+
+  const handleJumpToMessage = useCallback(async (messageId: string) => {
+    setActiveTab('chat');
+    setHighlightedId(null);
+    if (await revealMessage(messageId)) {
+      setHighlightedId(messageId);
     } else {
-      groupedMessages[groupedMessages.length - 1].items.push(msg);
+      alert('That message is no longer available.');
     }
-  });
+  }, [revealMessage]);
+
+  // Links from search results and notifications open the room at a specific message
+  const linkedMessageId = searchParams.get('message');
+  useEffect(() => {
+    if (!linkedMessageId || isLoading) return;
+    setSearchParams(params => {
+      params.delete('message');
+      return params;
+    }, { replace: true });
+    handleJumpToMessage(linkedMessageId);
+  }, [linkedMessageId, isLoading, setSearchParams, handleJumpToMessage]);
+
+  // Fade the highlight out once the user has seen where they landed
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), 3000);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
+
+  if (removal) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm p-6 text-center space-y-3">
+        <h1 className="text-2xl font-bold text-gray-900">
+          {removal.banned ? 'You have been banned from this room' : 'You have been removed from this room'}
+        </h1>
+        {removal.reason && <p className="text-gray-600">Reason: {removal.reason}</p>}
+        <Link to="/app/rooms" className="inline-block text-primary-600 hover:underline">Back to rooms</Link>
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-lg shadow-sm p-6">
-        <h1 className="text-2xl font-bold text-gray-900 mb-6">Chat Room: <span className="text-primary-600">{roomName || roomId}</span></h1>
-        <div className="bg-gray-50 rounded-lg p-4 h-96 mb-4 overflow-y-auto">
-          {isLoading ? (
-            <p className="text-gray-400">Loading messages...</p>
-          ) : error ? (
-            <p className="text-red-600">{error}</p>
-          ) : (
-            <>
-              <ul className="space-y-2 flex flex-col-reverse">
-                {groupedMessages.map(group => (
-                  <React.Fragment key={group.label}>
-                    <li className="sticky top-0 z-10 bg-gray-200 text-xs text-gray-600 py-1 px-2 rounded text-center mb-2">{group.label}</li>
-                    {group.items.map((msg, idx) => {
-                      let timeStr = '';
-                      if (msg.sent_at) {
-                        const date = new Date(msg.sent_at);
-                        if (!isNaN(date.getTime())) {
-                          timeStr = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
-                        } else {
-                          timeStr = 'Invalid time';
-                        }
-                      } else {
-                        timeStr = 'No time';
-                      }
-                      const compositeKey = msg.id && msg.sent_at ? `${msg.id}_${msg.sent_at}` : String(msg.id || msg.sent_at || idx);
-                      const avatarUrl = `https://ui-avatars.com/api/?name=${encodeURIComponent(msg.user?.username || 'User')}`;
-                      const isImage = typeof msg.content === 'string' && (msg.content.startsWith('http') && (msg.content.endsWith('.jpg') || msg.content.endsWith('.png') || msg.content.endsWith('.gif')));
-                      const isLink = typeof msg.content === 'string' && msg.content.startsWith('http');
-                      const readStatus = idx % 2 === 0 ? '✓✓' : '✓';
-                      // ...existing code...
-                      return (
-                        <li key={compositeKey} className="group flex items-start gap-3 p-2 rounded-lg hover:bg-gray-100 transition-all">
-                          <img src={avatarUrl} alt="avatar" className="w-8 h-8 rounded-full object-cover mr-2" />
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <span className="font-semibold text-primary-700">{msg.user?.username || 'Unknown User'}</span>
-                              <span className="text-xs text-gray-400">{timeStr}</span>
-                              <span className="text-xs text-green-500 ml-2">{readStatus}</span>
-                            </div>
-                            <div className="mt-1">
-                              {editingMsg === compositeKey ? (
-                                <div className="flex gap-2">
-                                  <input
-                                    className="border px-2 py-1 rounded w-full"
-                                    value={editValue}
-                                    onChange={e => setEditValue(e.target.value)}
-                                  />
-                                  <button className="text-xs px-2 py-1 rounded bg-primary-600 text-white" onClick={() => handleEditSave(compositeKey)}>Save</button>
-                                  <button className="text-xs px-2 py-1 rounded bg-gray-300" onClick={() => { setEditingMsg(null); setEditValue(''); }}>Cancel</button>
-                                </div>
-                              ) : isImage ? (
-                                <img src={msg.content} alt="media" className="max-w-xs rounded-md border" />
-                              ) : isLink ? (
-                                <a href={msg.content} target="_blank" rel="noopener noreferrer" className="text-blue-600 underline break-all">{msg.content}</a>
-                              ) : (
-                                <span className="text-gray-700 break-words">{msg.content}</span>
-                              )}
-                            </div>
-                            <div className="flex gap-2 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Reply" onClick={() => handleReply(compositeKey, msg.user?.username || 'User')}>↩️ Reply</button>
-                              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Copy" onClick={() => handleCopy(msg.content)}>📋 Copy</button>
-                              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Edit" onClick={() => { setEditingMsg(compositeKey); setEditValue(msg.content); }}>✏️ Edit</button>
-                              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Delete">🗑️ Delete</button>
-                              <div className="flex gap-1">
-                                {['😀','👍','❤️'].map(emoji => (
-                                  <button
-                                    key={emoji}
-                                    className={`text-xs ${reactions[compositeKey] === emoji ? 'bg-primary-600 text-white' : ''}`}
-                                    title="React"
-                                    onClick={() => setReactions(prev => ({
-                                      ...prev,
-                                      [compositeKey]: prev[compositeKey] === emoji ? '' : emoji
-                                    }))}
-                                  >
-                                    {emoji} {reactions[compositeKey] === emoji ? '1' : ''}
-                                  </button>
-                                ))}
-                              </div>
-                            </div>
-                            {replyingTo === compositeKey && (
-                              <div className="mt-2 text-xs text-blue-600">Replying to <b>{msg.user?.username || 'User'}</b></div>
-                            )}
-                          </div>
-                        </li>
-                      );
-                    })}
-                  </React.Fragment>
-                ))}
-                <div ref={messagesEndRef} />
-              </ul>
-              <TypingIndicator typingUsers={typingUsers} />
-            </>
-          )}
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Chat Room: <span className="text-primary-600">{roomName || roomId}</span></h1>
+          <div className="flex items-center gap-2">
+            <button
+              className={`text-sm px-3 py-1.5 rounded-md border ${showSearch ? 'border-primary-400 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setShowSearch(prev => !prev)}
+            >
+              🔍 Search
+            </button>
+            <button
+              className={`text-sm px-3 py-1.5 rounded-md border ${showAssistant ? 'border-primary-400 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+              onClick={() => setShowAssistant(prev => !prev)}
+              title="Ask AI about this room"
+            >
+              🤖 Ask AI
+            </button>
+            <button
+              className="flex items-center gap-2 text-sm px-3 py-1.5 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+              onClick={() => setShowMembers(prev => !prev)}
+            >
+              <span className="inline-block h-2 w-2 rounded-full bg-green-500" />
+              {onlineCount} online
+            </button>
+          </div>
         </div>
-        <div className="flex gap-2">
-          <input
-            type="text"
-            placeholder="Type your message..."
-            value={input}
-            onChange={e => {
-              setInput(e.target.value);
-              sendTyping(!!e.target.value);
+        <div className="flex flex-col lg:flex-row gap-4">
+          <ChatTimeline
+            chat={chat}
+            attachments={attachments}
+            roomId={roomId || ''}
+            currentUserId={user ? String(user.id) : undefined}
+            members={roomMembers}
+            mentionCandidates={mentionCandidates}
+            sendReply={sendReply}
+            prepareSend={prepareSend}
+            prepareEdit={prepareEdit}
+            canModerate={canModerate}
+            onTogglePin={handleTogglePin}
+            onModerate={handleModerate}
+            getSeenBy={getSeenBy}
+            highlightedId={highlightedId}
+            placeholder={assistantEnabled ? 'Type your message... (start with @assistant to ask the AI)' : undefined}
+            onInputChange={() => {
+              if (filterNotice) setFilterNotice(null);
             }}
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-            onKeyDown={e => { if (e.key === 'Enter') handleSend(); }}
-          />
-          <button
-            className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 transition-colors"
-            onClick={handleSend}
+            disabledReason={muteNotice}
+            status={isAssistantAnswering
+              ? <p className="text-sm text-purple-600 italic animate-pulse">🤖 {ASSISTANT_NAME} is typing...</p>
+              : undefined}
+            header={(
+              <>
+                <ConnectionBanner
+                  state={connectionState}
+                  isFallback={isFallback}
+                  onRetry={reconnect}
+                />
+                <nav className="flex space-x-6 border-b border-gray-200 mb-3">
+                  {([
+                    { key: 'chat', label: 'Chat' },
+                    { key: 'media', label: 'Files & Media' },
+                  ] as const).map(tab => (
+                    <button
+                      key={tab.key}
+                      onClick={() => setActiveTab(tab.key)}
+                      className={`py-2 text-sm font-medium border-b-2 ${
+                        activeTab === tab.key
+                          ? 'border-primary-500 text-primary-600'
+                          : 'border-transparent text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  ))}
+                </nav>
+                {activeTab === 'chat' && (
+                  <PinnedMessagesStrip
+                    messages={pinnedMessages}
+                    canUnpin={canModerate}
+                    onJumpToMessage={handleJumpToMessage}
+                    onUnpin={unpinMessage}
+                  />
+                )}
+              </>
+            )}
+            replaceTimeline={activeTab === 'media' && roomId ? (
+              <MediaGallery
+                roomId={roomId}
+                members={roomMembers}
+                onJumpToMessage={handleJumpToMessage}
+              />
+            ) : undefined}
+            composerHeader={(
+              <>
+                {canModerate && (
+                  <label className="flex items-center gap-2 mb-2 text-sm text-gray-700 w-max cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isAnnouncement}
+                      onChange={e => setIsAnnouncement(e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    📢 Post as announcement
+                    <span className="text-xs text-gray-500">(notifies every member)</span>
+                  </label>
+                )}
+                {assistantError && (
+                  <p className="flex items-center gap-2 text-sm mb-2 text-red-600" role="status">
+                    🤖 {assistantError}
+                    <button className="text-xs text-gray-500 hover:text-gray-700" onClick={dismissAssistantError} title="Dismiss">✕</button>
+                  </p>
+                )}
+                {filterNotice && (
+                  <p className={`text-sm mb-2 ${filterNotice.isError ? 'text-red-600' : 'text-amber-700'}`} role="status">
+                    {filterNotice.text}
+                  </p>
+                )}
+              </>
+            )}
           >
-            Send
-          </button>
+            {roomId && showSearch && (
+              <RoomSearchPanel
+                roomId={roomId}
+                members={roomMembers}
+                onJumpToMessage={handleJumpToMessage}
+                onClose={() => setShowSearch(false)}
+              />
+            )}
+            {roomId && showAssistant && (
+              <RoomAssistantDrawer
+                roomId={roomId}
+                roomName={roomName || roomId}
+                userId={user ? String(user.id) : undefined}
+                onClose={() => setShowAssistant(false)}
+              />
+            )}
+            {showMembers && (
+              <MemberSidebar
+                members={members}
+                currentUserId={user ? String(user.id) : undefined}
+                isLoading={isLoadingMembers}
+                onClose={() => setShowMembers(false)}
+              />
+            )}
+          </ChatTimeline>
         </div>
       </div>
+
+      {moderatingMessage && (
+        <ModerateUserModal
+          message={moderatingMessage}
+          mute={restrictions.find(r => (
+            r.type === RestrictionType.MUTE && r.userId === String(moderatingMessage.user_id ?? moderatingMessage.user?.id)
+          ))}
+          onMute={muteUser}
+          onUnmute={unmuteUser}
+          onKick={kickUser}
+          onBan={banUser}
+          onClose={() => setModeratingMessage(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,350 @@
+import React, { useState, useRef, useMemo, useCallback } from 'react';
+import MessageList from './MessageList';
+import MessageItem from './MessageItem';
+import MessageComposer from './MessageComposer';
+import TypingIndicator from './TypingIndicator';
+import QuotedMessage from './QuotedMessage';
+import ThreadPanel from './ThreadPanel';
+import { getAcceptAttribute } from '../utils/attachments';
+import { extractMentions } from '../utils/mentions';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Message, User } from '../../../contexts/authTypes';
+import type { ChatRoomState, SendMessageOptions } from '../hooks/useChatRoom';
+import type { AttachmentsState } from '../hooks/useAttachments';
+
+interface ChatTimelineProps {
+  chat: ChatRoomState;
+  attachments: AttachmentsState;
+  roomId: string;
+  currentUserId?: string;
+  /** Members, used to resolve @mentions and reactor names */
+  members: User[];
+  mentionCandidates?: User[];
+  /** Sends messages and thread replies; defaults to the room's sendMessage */
+  send?: (content: string, options: SendMessageOptions) => Promise<boolean>;
+  /** Sends thread replies; may reject with a reason the thread panel shows */
+  sendReply?: (content: string, options: SendMessageOptions) => Promise<boolean>;
+  /** Screens the composer's text before sending; returns extra options, or null to keep it unsent */
+  prepareSend?: (content: string) => Partial<SendMessageOptions> | null;
+  /** Screens an edit before saving; returns why it's flagged for review, or null to keep editing */
+  prepareEdit?: (content: string) => { flagReason?: string } | null;
+  canModerate?: boolean;
+  onTogglePin?: (messageId: string, pin: boolean) => void;
+  onModerate?: (message: Message) => void;
+  getSeenBy?: (message: Message) => string[];
+  /** Called with the newest message scrolled into view; defaults to marking it read */
+  onMessageVisible?: (message: Message) => void;
+  /** Briefly outlined, e.g. after jumping to it from search */
+  highlightedId?: string | null;
+  placeholder?: string;
+  onInputChange?: (value: string) => void;
+  /** Locks the composer and thread replies with this explanation */
+  disabledReason?: string | null;
+  /** Shown in place of the typing indicator */
+  status?: React.ReactNode;
+  /** Shown above the composer, e.g. notices and composer options */
+  composerHeader?: React.ReactNode;
+  /** Shown instead of the timeline and composer, e.g. another tab of the room */
+  replaceTimeline?: React.ReactNode;
+  /** Rendered at the top of the timeline column */
+  header?: React.ReactNode;
+  /** Side panels rendered after the thread panel */
+  children?: React.ReactNode;
+}
+
+/**
+ * Message timeline, composer and thread panel of a room
+ * Shared by study rooms and direct conversations; the room's own rules (content filter,
+ * announcements, moderation) are plugged in through props.
+ */
+const ChatTimeline: React.FC<ChatTimelineProps> = ({
+  chat,
+  attachments: attachmentsState,
+  roomId,
+  currentUserId,
+  members,
+  mentionCandidates,
+  send,
+  sendReply,
+  prepareSend,
+  prepareEdit,
+  canModerate = false,
+  onTogglePin,
+  onModerate,
+  getSeenBy,
+  onMessageVisible,
+  highlightedId,
+  placeholder,
+  onInputChange,
+  disabledReason,
+  status,
+  composerHeader,
+  replaceTimeline,
+  header,
+  children,
+}) => {
+  const [input, setInput] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [threadParentId, setThreadParentId] = useState<string | null>(null);
+  const [editingMsg, setEditingMsg] = useState<string | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const {
+    messages,
+    isLoading,
+    error,
+    actionError,
+    dismissActionError,
+    typingUsers,
+    unreadAfterId,
+    markRead,
+    hasMore,
+    isLoadingOlder,
+    loadOlder,
+    hasNewer,
+    isLoadingNewer,
+    loadNewer,
+    jumpToLatest,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    sendTyping,
+  } = chat;
+  const {
+    attachments,
+    storageSettings,
+    isUploading,
+    attachmentError,
+    addFiles,
+    removeAttachment,
+    clearAttachments,
+  } = attachmentsState;
+  const sendMain = send ?? sendMessage;
+
+  // The message shows up immediately with a pending state, so the composer clears right away.
+  // Each uploaded file is sent as its own message; the text goes with the first one.
+  const handleSend = () => {
+    if (isUploading || disabledReason) return;
+    const uploaded = attachments.filter(a => a.media);
+    if (!input.trim() && !uploaded.length) return;
+    // Rejected messages stay in the composer so they can be fixed
+    const extra = prepareSend ? prepareSend(input) : {};
+    if (!extra) return;
+    const options: SendMessageOptions = {
+      parentId: replyingTo ?? undefined,
+      mentions: extractMentions(input, members),
+      ...extra,
+    };
+    if (uploaded.length) {
+      uploaded.forEach((attachment, index) => {
+        sendMain(index === 0 ? input : '', index === 0
+          ? { ...options, media: attachment.media }
+          : { parentId: options.parentId, media: attachment.media });
+      });
+    } else {
+      sendMain(input, options);
+    }
+    clearAttachments();
+    setInput('');
+    sendTyping(false);
+    setReplyingTo(null);
+  };
+
+  // Resolve reactor ids to names for the "who reacted" tooltips
+  const userNames = useMemo(() => {
+    const names: { [userId: string]: string } = {};
+    messages.forEach(m => {
+      if (m.user?.id) names[String(m.user.id)] = m.user.username;
+    });
+    members.forEach(member => { names[String(member.id)] = getUserDisplayName(member); });
+    if (currentUserId) names[currentUserId] = 'You';
+    return names;
+  }, [messages, members, currentUserId]);
+
+  const getReactorNames = useCallback(
+    (userIds: string[]) => userIds.map(id => userNames[id] || 'Someone').join(', '),
+    [userNames]
+  );
+
+  const messagesById = useMemo(() => {
+    const byId: { [id: string]: Message } = {};
+    messages.forEach(m => { byId[m.id] = m; });
+    return byId;
+  }, [messages]);
+
+  // Count replies we already have loaded, in case the server doesn't send replyCount
+  const localReplyCounts = useMemo(() => {
+    const counts: { [id: string]: number } = {};
+    messages.forEach(m => {
+      if (m.parentId) counts[m.parentId] = (counts[m.parentId] || 0) + 1;
+    });
+    return counts;
+  }, [messages]);
+
+  const threadParent = threadParentId ? messagesById[threadParentId] : undefined;
+  const threadReplies = useMemo(
+    () => (threadParentId ? messages.filter(m => m.parentId === threadParentId) : []),
+    [messages, threadParentId]
+  );
+  const replyTarget = replyingTo ? messagesById[replyingTo] : undefined;
+
+  const handleReply = useCallback((messageId: string) => {
+    setReplyingTo(messageId);
+    inputRef.current?.focus();
+  }, []);
+
+  const handleOpenThread = useCallback((messageId: string) => setThreadParentId(messageId), []);
+  const handleStartEdit = useCallback((messageId: string) => setEditingMsg(messageId), []);
+  const handleCancelEdit = useCallback(() => setEditingMsg(null), []);
+
+  // Save edited message; the hook persists it and other participants get it over the socket.
+  // Rejected edits stay in the editor so they can be fixed.
+  const handleEditSave = useCallback(async (messageId: string, content: string) => {
+    const screened = prepareEdit ? prepareEdit(content) : {};
+    if (!screened) return;
+    await editMessage(messageId, content, screened.flagReason);
+    setEditingMsg(null);
+  }, [prepareEdit, editMessage]);
+
+  const handleDelete = useCallback(async (messageId: string) => {
+    if (window.confirm('Are you sure you want to delete this message?')) {
+      await deleteMessage(messageId);
+    }
+  }, [deleteMessage]);
+
+  const renderMessage = (msg: Message) => {
+    if (msg.type === MessageType.SYSTEM) {
+      return <p className="text-center text-xs text-gray-400 italic py-1">{msg.content}</p>;
+    }
+    const isOwn = !!currentUserId && String(msg.user_id ?? msg.user?.id) === currentUserId;
+    const item = (
+      <MessageItem
+        message={msg}
+        isOwn={isOwn}
+        quotedParent={msg.parentId ? (messagesById[msg.parentId] || msg.parent) : undefined}
+        replyCount={Math.max(msg.replyCount || 0, localReplyCounts[msg.id] || 0)}
+        seenBy={isOwn && getSeenBy ? getSeenBy(msg) : undefined}
+        isEditing={editingMsg === msg.id}
+        currentUserId={currentUserId}
+        canPin={canModerate && !!onTogglePin}
+        canModerate={canModerate}
+        getReactorNames={getReactorNames}
+        onReply={handleReply}
+        onOpenThread={handleOpenThread}
+        onStartEdit={handleStartEdit}
+        onCancelEdit={handleCancelEdit}
+        onSaveEdit={handleEditSave}
+        onDelete={handleDelete}
+        onToggleReaction={toggleReaction}
+        onRetry={retryMessage}
+        onDiscard={discardMessage}
+        onTogglePin={onTogglePin}
+        onModerate={onModerate}
+      />
+    );
+    return msg.id === highlightedId
+      ? <div className="rounded-lg ring-2 ring-primary-400 bg-primary-50 transition-colors">{item}</div>
+      : item;
+  };
+
+  return (
+    <>
+      <div className="flex-1 min-w-0">
+        {header}
+        {replaceTimeline ?? (
+          <>
+            {actionError && (
+              <div className="flex items-center justify-between gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-2" role="alert">
+                <span className="text-sm text-red-800">{actionError}</span>
+                <button className="text-xs text-red-500 hover:text-red-700" onClick={dismissActionError} title="Dismiss">✕</button>
+              </div>
+            )}
+            {isLoading ? (
+              <div className="bg-gray-50 rounded-lg p-4 h-96 mb-4">
+                <p className="text-gray-400">Loading messages...</p>
+              </div>
+            ) : error ? (
+              <div className="bg-gray-50 rounded-lg p-4 h-96 mb-4">
+                <p className="text-red-600">{error}</p>
+              </div>
+            ) : (
+              <MessageList
+                messages={messages}
+                renderMessage={renderMessage}
+                hasMore={hasMore}
+                isLoadingOlder={isLoadingOlder}
+                onLoadOlder={loadOlder}
+                hasNewer={hasNewer}
+                isLoadingNewer={isLoadingNewer}
+                onLoadNewer={loadNewer}
+                onMessageVisible={onMessageVisible ?? markRead}
+                unreadAfterId={unreadAfterId}
+                focusMessageId={highlightedId}
+                className="bg-gray-50 rounded-lg px-4 h-96 mb-2"
+              />
+            )}
+            <div className="flex items-center justify-between min-h-[1.75rem] mb-2">
+              {status ?? <TypingIndicator typingUsers={typingUsers} />}
+              {hasNewer && (
+                <button
+                  className="ml-auto text-xs px-3 py-1 rounded-full bg-primary-600 text-white hover:bg-primary-700 shadow-sm"
+                  onClick={jumpToLatest}
+                >
+                  Jump to latest ↓
+                </button>
+              )}
+            </div>
+            {replyTarget && (
+              <div className="flex items-center justify-between gap-2 mb-2 px-2 py-1 bg-primary-50 rounded-md">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xs text-primary-700 whitespace-nowrap">Replying to</span>
+                  <QuotedMessage message={replyTarget} />
+                </div>
+                <button className="text-xs text-gray-500 hover:text-gray-700" onClick={() => setReplyingTo(null)} title="Cancel reply">✕</button>
+              </div>
+            )}
+            {composerHeader}
+            <MessageComposer
+              inputRef={inputRef}
+              value={input}
+              onChange={value => {
+                setInput(value);
+                sendTyping(!!value);
+                onInputChange?.(value);
+              }}
+              onSend={handleSend}
+              placeholder={placeholder}
+              attachments={attachments}
+              attachmentError={attachmentError}
+              accept={getAcceptAttribute(storageSettings)}
+              isUploading={isUploading}
+              onAddFiles={addFiles}
+              onRemoveAttachment={removeAttachment}
+              mentionCandidates={mentionCandidates}
+              disabledReason={disabledReason}
+            />
+          </>
+        )}
+      </div>
+      {threadParent && (
+        <ThreadPanel
+          key={threadParent.id}
+          roomId={roomId}
+          parent={threadParent}
+          liveReplies={threadReplies}
+          onSend={sendReply ?? sendMain}
+          onClose={() => setThreadParentId(null)}
+          members={members}
+          currentUserId={currentUserId}
+          disabledReason={disabledReason}
+        />
+      )}
+      {children}
+    </>
+  );
+};
+
+export default ChatTimeline;
@@ -0,0 +1,47 @@
+import React from 'react';
+import type { ConnectionState } from '../../../services/socket';
+
+interface ConnectionBannerProps {
+  state: ConnectionState;
+  /** Messages are being polled and sent over REST */
+  isFallback: boolean;
+  onRetry: () => void;
+}
+
+/**
+ * Shows the chat connection status whenever it isn't live
+ */
+const ConnectionBanner: React.FC<ConnectionBannerProps> = ({ state, isFallback, onRetry }) => {
+  if (state === 'connected' || state === 'idle') return null;
+
+  const fallbackNote = isFallback ? ' Messages are still sent and checked every few seconds.' : '';
+
+  if (state === 'connecting') {
+    return (
+      <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-md bg-blue-50 text-blue-700 text-sm" role="status">
+        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600" />
+        Connecting to chat...
+      </div>
+    );
+  }
+
+  if (state === 'reconnecting') {
+    return (
+      <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-md bg-yellow-50 text-yellow-800 text-sm" role="status">
+        <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-yellow-600" />
+        Connection lost. Reconnecting...{fallbackNote}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 mb-2 px-3 py-2 rounded-md bg-red-50 text-red-700 text-sm" role="alert">
+      <span>You're offline from live chat.{fallbackNote}</span>
+      <button className="text-xs px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700" onClick={onRetry}>
+        Retry now
+      </button>
+    </div>
+  );
+};
+
+export default ConnectionBanner;
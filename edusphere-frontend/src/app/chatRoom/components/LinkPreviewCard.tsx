@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { useLinkPreview } from '../hooks/useLinkPreview';
+
+interface LinkPreviewCardProps {
+  url: string;
+}
+
+/**
+ * Unfurled link: embedded player for videos, otherwise title, description and thumbnail
+ */
+const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url }) => {
+  const preview = useLinkPreview(url);
+  // Players are only loaded on demand so a busy room doesn't load dozens of iframes
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+
+  if (!preview || (!preview.title && !preview.description && !preview.embed)) return null;
+
+  const host = preview.siteName || new URL(preview.url).hostname;
+
+  if (preview.embed?.type === 'video') {
+    return (
+      <div className="mt-2 max-w-sm">
+        <video src={preview.embed.src} controls preload="metadata" className="w-full max-h-72 rounded-md border bg-black" />
+      </div>
+    );
+  }
+
+  if (preview.embed?.type === 'youtube') {
+    return (
+      <div className="mt-2 max-w-sm rounded-md border border-gray-200 overflow-hidden bg-white">
+        {isPlaying ? (
+          <iframe
+            src={`${preview.embed.src}?autoplay=1`}
+            title={preview.title || 'Video'}
+            className="w-full aspect-video"
+            allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+          />
+        ) : (
+          <button className="relative block w-full aspect-video bg-black" onClick={() => setIsPlaying(true)} title="Play video">
+            {preview.imageUrl && <img src={preview.imageUrl} alt="" loading="lazy" className="w-full h-full object-cover opacity-90" />}
+            <span className="absolute inset-0 flex items-center justify-center">
+              <span className="flex items-center justify-center w-14 h-10 rounded-lg bg-red-600 text-white text-xl">▶</span>
+            </span>
+          </button>
+        )}
+        <div className="px-3 py-2">
+          <p className="text-xs text-gray-500">{host}</p>
+          {preview.title && <p className="text-sm font-medium text-gray-800 truncate">{preview.title}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={preview.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="mt-2 flex max-w-md rounded-md border border-gray-200 border-l-4 border-l-primary-400 bg-white hover:bg-gray-50 overflow-hidden"
+    >
+      <div className="flex-1 min-w-0 px-3 py-2">
+        <p className="text-xs text-gray-500 truncate">{host}</p>
+        {preview.title && <p className="text-sm font-medium text-primary-700 line-clamp-2">{preview.title}</p>}
+        {preview.description && <p className="text-xs text-gray-600 line-clamp-2 mt-0.5">{preview.description}</p>}
+      </div>
+      {preview.imageUrl && (
+        <img src={preview.imageUrl} alt="" loading="lazy" className="w-20 h-20 object-cover flex-shrink-0 self-center mr-2 rounded" />
+      )}
+    </a>
+  );
+};
+
+export default LinkPreviewCard;
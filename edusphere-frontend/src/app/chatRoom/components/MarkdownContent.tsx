@@ -0,0 +1,30 @@
+import React, { useMemo } from 'react';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { renderMarkdown } from '../../../utils/markdown';
+import type { MessageMention } from '../../../contexts/authTypes';
+
+interface MarkdownContentProps {
+  content: string;
+  mentions?: MessageMention[];
+  currentUserId?: string;
+  className?: string;
+}
+
+/**
+ * Message body rendered from Markdown; the HTML is sanitised by renderMarkdown
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, mentions, currentUserId, className = '' }) => {
+  const html = useMemo(
+    () => renderMarkdown(content, { mentions, currentUserId }),
+    [content, mentions, currentUserId]
+  );
+  return (
+    <div
+      className={`chat-markdown text-gray-700 break-words ${className}`}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,142 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { MediaType } from '../../../contexts/authTypes';
+import type { Media, User } from '../../../contexts/authTypes';
+import { useRoomMedia } from '../hooks/useRoomMedia';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import MediaLightbox from './MediaLightbox';
+
+interface MediaGalleryProps {
+  roomId: string;
+  /** Room members, offered as uploader filter */
+  members: User[];
+  onJumpToMessage: (messageId: string) => void;
+}
+
+const TYPE_FILTERS: { value: MediaType | ''; label: string }[] = [
+  { value: '', label: 'All types' },
+  { value: MediaType.IMAGE, label: 'Images' },
+  { value: MediaType.VIDEO, label: 'Videos' },
+  { value: MediaType.FILE, label: 'Files' },
+];
+
+/**
+ * "Files & Media" tab: everything shared in the room as a filterable grid
+ */
+const MediaGallery: React.FC<MediaGalleryProps> = ({ roomId, members, onJumpToMessage }) => {
+  const [typeFilter, setTypeFilter] = useState<MediaType | ''>('');
+  const [uploaderFilter, setUploaderFilter] = useState<string>('');
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const { media, isLoading, error, hasMore, loadMore } = useRoomMedia(roomId, {
+    type: typeFilter || undefined,
+    userId: uploaderFilter || undefined,
+  });
+
+  const memberNames = useMemo(() => {
+    const names: { [userId: string]: string } = {};
+    members.forEach(m => { names[String(m.id)] = getUserDisplayName(m); });
+    return names;
+  }, [members]);
+
+  const getUploaderName = useCallback(
+    (item: Media) => (item.user ? getUserDisplayName(item.user) : memberNames[String(item.userId)] || 'Unknown User'),
+    [memberNames]
+  );
+
+  const handleJump = useCallback((messageId: string) => {
+    setLightboxIndex(null);
+    onJumpToMessage(messageId);
+  }, [onJumpToMessage]);
+
+  const handleCloseLightbox = useCallback(() => setLightboxIndex(null), []);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 min-h-96">
+      <div className="flex flex-wrap gap-2 mb-4">
+        <select
+          value={typeFilter}
+          onChange={e => setTypeFilter(e.target.value as MediaType | '')}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          {TYPE_FILTERS.map(filter => (
+            <option key={filter.label} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <select
+          value={uploaderFilter}
+          onChange={e => setUploaderFilter(e.target.value)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        >
+          <option value="">Everyone</option>
+          {members.map(member => (
+            <option key={member.id} value={String(member.id)}>{getUserDisplayName(member)}</option>
+          ))}
+        </select>
+      </div>
+
+      {error ? (
+        <p className="text-red-600 text-sm">{error}</p>
+      ) : !isLoading && media.length === 0 ? (
+        <p className="text-gray-400 text-sm text-center py-12">No files or media shared yet</p>
+      ) : (
+        <ul className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+          {media.map((item, index) => {
+            const name = item.fileName || item.url.split('/').pop() || 'Attachment';
+            return (
+              <li key={item.id} className="group relative aspect-square rounded-md overflow-hidden border border-gray-200 bg-white">
+                <button className="w-full h-full" onClick={() => setLightboxIndex(index)} title={name}>
+                  {item.type === MediaType.IMAGE ? (
+                    <img src={item.url} alt={name} loading="lazy" className="w-full h-full object-cover" />
+                  ) : item.type === MediaType.VIDEO ? (
+                    <div className="relative w-full h-full bg-black">
+                      <video src={item.url} preload="metadata" muted className="w-full h-full object-cover" />
+                      <span className="absolute inset-0 flex items-center justify-center text-3xl text-white/90">▶</span>
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center w-full h-full p-2 text-gray-600">
+                      <span className="text-3xl">📄</span>
+                      <span className="mt-1 text-xs truncate max-w-full">{name}</span>
+                    </div>
+                  )}
+                </button>
+                <div className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-1 px-2 py-1 bg-black/60 text-white text-xs opacity-0 group-hover:opacity-100 transition-opacity">
+                  <span className="truncate">{getUploaderName(item)}</span>
+                  {item.messageId && (
+                    <button className="whitespace-nowrap underline" onClick={() => handleJump(item.messageId!)}>
+                      Jump to message
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {isLoading ? (
+        <p className="text-gray-400 text-sm text-center mt-4">Loading media...</p>
+      ) : hasMore && (
+        <div className="text-center mt-4">
+          <button
+            className="text-sm px-4 py-2 rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100"
+            onClick={loadMore}
+          >
+            Load more
+          </button>
+        </div>
+      )}
+
+      {lightboxIndex !== null && (
+        <MediaLightbox
+          items={media}
+          index={lightboxIndex}
+          getUploaderName={getUploaderName}
+          onNavigate={setLightboxIndex}
+          onJumpToMessage={handleJump}
+          onClose={handleCloseLightbox}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MediaGallery;
@@ -0,0 +1,107 @@
+import React, { useEffect } from 'react';
+import { MediaType } from '../../../contexts/authTypes';
+import type { Media } from '../../../contexts/authTypes';
+
+interface MediaLightboxProps {
+  items: Media[];
+  index: number;
+  getUploaderName: (media: Media) => string;
+  onNavigate: (index: number) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Full-screen viewer for gallery items; arrow keys move between items, Escape closes
+ */
+const MediaLightbox: React.FC<MediaLightboxProps> = ({
+  items,
+  index,
+  getUploaderName,
+  onNavigate,
+  onJumpToMessage,
+  onClose,
+}) => {
+  const item = items[index];
+  const hasPrevious = index > 0;
+  const hasNext = index < items.length - 1;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft' && hasPrevious) onNavigate(index - 1);
+      if (e.key === 'ArrowRight' && hasNext) onNavigate(index + 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, hasPrevious, hasNext, onNavigate, onClose]);
+
+  if (!item) return null;
+
+  const name = item.fileName || item.url.split('/').pop() || 'Attachment';
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-black/90" role="dialog" aria-modal="true" onClick={onClose}>
+      <div className="flex items-center justify-between px-4 py-3 text-white" onClick={e => e.stopPropagation()}>
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{name}</p>
+          <p className="text-xs text-gray-300">
+            {getUploaderName(item)} · {new Date(item.createdAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {item.messageId && (
+            <button
+              className="text-xs px-3 py-1.5 rounded bg-white/10 hover:bg-white/20"
+              onClick={() => onJumpToMessage(item.messageId!)}
+            >
+              Jump to message
+            </button>
+          )}
+          <a
+            href={item.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs px-3 py-1.5 rounded bg-white/10 hover:bg-white/20"
+          >
+            Open original
+          </a>
+          <button className="text-lg px-2 hover:text-gray-300" onClick={onClose} title="Close">✕</button>
+        </div>
+      </div>
+      <div className="relative flex-1 flex items-center justify-center min-h-0 px-16 pb-6">
+        {hasPrevious && (
+          <button
+            className="absolute left-4 text-3xl text-white/70 hover:text-white"
+            title="Previous"
+            onClick={e => { e.stopPropagation(); onNavigate(index - 1); }}
+          >
+            ‹
+          </button>
+        )}
+        <div onClick={e => e.stopPropagation()} className="max-h-full max-w-full flex items-center justify-center">
+          {item.type === MediaType.IMAGE ? (
+            <img src={item.url} alt={name} className="max-h-[80vh] max-w-full object-contain" />
+          ) : item.type === MediaType.VIDEO ? (
+            <video key={item.id} src={item.url} controls autoPlay className="max-h-[80vh] max-w-full" />
+          ) : (
+            <a href={item.url} download={name} className="px-4 py-3 rounded-md bg-white text-gray-800 text-sm">
+              📄 Download {name}
+            </a>
+          )}
+        </div>
+        {hasNext && (
+          <button
+            className="absolute right-4 text-3xl text-white/70 hover:text-white"
+            title="Next"
+            onClick={e => { e.stopPropagation(); onNavigate(index + 1); }}
+          >
+            ›
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MediaLightbox;
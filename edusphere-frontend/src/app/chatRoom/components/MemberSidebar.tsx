@@ -0,0 +1,68 @@
+import React from 'react';
+import PresenceIndicator from '../../../components/PresenceIndicator';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import type { PresenceMember } from '../../../hooks/usePresence';
+import type { PresenceStatus } from '../../../services/socket';
+
+interface MemberSidebarProps {
+  members: PresenceMember[];
+  currentUserId?: string;
+  isLoading: boolean;
+  onClose: () => void;
+}
+
+const GROUPS: { status: PresenceStatus; title: string }[] = [
+  { status: 'online', title: 'Online' },
+  { status: 'idle', title: 'Away' },
+  { status: 'offline', title: 'Offline' },
+];
+
+/**
+ * Room members grouped by presence
+ */
+const MemberSidebar: React.FC<MemberSidebarProps> = ({ members, currentUserId, isLoading, onClose }) => (
+  <aside className="lg:w-60 flex-shrink-0 border border-gray-200 rounded-lg bg-white flex flex-col max-h-[32rem]">
+    <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+      <h2 className="text-sm font-semibold text-gray-900">Members ({members.length})</h2>
+      <button className="text-xs text-gray-500 hover:text-gray-700" onClick={onClose} title="Hide members">✕</button>
+    </div>
+    <div className="flex-1 overflow-y-auto px-3 py-2 space-y-3">
+      {isLoading && !members.length ? (
+        <p className="text-xs text-gray-400">Loading members...</p>
+      ) : (
+        GROUPS.map(({ status, title }) => {
+          const group = members.filter(m => m.status === status);
+          if (!group.length) return null;
+          return (
+            <div key={status}>
+              <p className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-1">{title} — {group.length}</p>
+              <ul className="space-y-1">
+                {group.map(({ user: member }) => {
+                  const name = getUserDisplayName(member);
+                  return (
+                    <li key={member.id} className={`flex items-center gap-2 ${status === 'offline' ? 'opacity-60' : ''}`}>
+                      <div className="relative flex-shrink-0">
+                        <img
+                          src={member.avatar || `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}`}
+                          alt={name}
+                          className="w-7 h-7 rounded-full object-cover"
+                        />
+                        <PresenceIndicator status={status} className="absolute -bottom-0.5 -right-0.5" />
+                      </div>
+                      <span className="text-sm text-gray-700 truncate">
+                        {name}
+                        {String(member.id) === currentUserId && <span className="text-xs text-gray-400"> (you)</span>}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })
+      )}
+    </div>
+  </aside>
+);
+
+export default MemberSidebar;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { MediaType } from '../../../contexts/authTypes';
+import type { Media } from '../../../contexts/authTypes';
+import { formatFileSize } from '../utils/attachments';
+
+interface MessageAttachmentProps {
+  media: Media;
+}
+
+/**
+ * Media attached to a message: images and videos inline, other files as a download link
+ */
+const MessageAttachment: React.FC<MessageAttachmentProps> = ({ media }) => {
+  const name = media.fileName || media.url.split('/').pop() || 'Attachment';
+
+  if (media.type === MediaType.IMAGE) {
+    return (
+      <a href={media.url} target="_blank" rel="noopener noreferrer" className="block w-max max-w-full">
+        <img src={media.url} alt={name} loading="lazy" className="max-w-xs max-h-72 rounded-md border object-contain" />
+      </a>
+    );
+  }
+
+  if (media.type === MediaType.VIDEO) {
+    return (
+      <video src={media.url} controls preload="metadata" className="max-w-sm max-h-72 rounded-md border bg-black" />
+    );
+  }
+
+  return (
+    <a
+      href={media.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      download={name}
+      className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-gray-200 bg-white hover:bg-gray-50 max-w-xs"
+    >
+      <span className="text-xl">📄</span>
+      <span className="min-w-0">
+        <span className="block text-sm text-gray-800 truncate">{name}</span>
+        {media.size !== undefined && <span className="block text-xs text-gray-500">{formatFileSize(media.size)}</span>}
+      </span>
+    </a>
+  );
+};
+
+export default MessageAttachment;
@@ -0,0 +1,337 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { RefObject } from 'react';
+import MarkdownContent from './MarkdownContent';
+import type { PendingAttachment } from '../hooks/useAttachments';
+import { formatFileSize } from '../utils/attachments';
+import { filterMentionCandidates, getMentionHandle, getMentionQuery } from '../utils/mentions';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import { MediaType } from '../../../contexts/authTypes';
+import type { User } from '../../../contexts/authTypes';
+
+interface MessageComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSend: () => void;
+  inputRef: RefObject<HTMLTextAreaElement | null>;
+  placeholder?: string;
+  attachments?: PendingAttachment[];
+  attachmentError?: string | null;
+  /** Value for the file picker's accept attribute */
+  accept?: string;
+  isUploading?: boolean;
+  onAddFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (id: string) => void;
+  /** Members offered when typing @ */
+  mentionCandidates?: User[];
+  /** Locks the composer and shows this explanation instead, e.g. while the user is muted */
+  disabledReason?: string | null;
+}
+
+interface FormatAction {
+  label: string;
+  title: string;
+  /** Text inserted before and after the selection */
+  before: string;
+  after: string;
+  /** Used when nothing is selected */
+  placeholder: string;
+  /** Prefix every selected line instead of wrapping the selection */
+  linePrefix?: boolean;
+}
+
+const FORMAT_ACTIONS: FormatAction[] = [
+  { label: 'B', title: 'Bold', before: '**', after: '**', placeholder: 'bold text' },
+  { label: 'I', title: 'Italic', before: '_', after: '_', placeholder: 'italic text' },
+  { label: '</>', title: 'Inline code', before: '`', after: '`', placeholder: 'code' },
+  { label: '{ }', title: 'Code block', before: '```\n', after: '\n```', placeholder: 'code block' },
+  { label: '•', title: 'Bulleted list', before: '- ', after: '', placeholder: 'list item', linePrefix: true },
+  { label: '1.', title: 'Numbered list', before: '1. ', after: '', placeholder: 'list item', linePrefix: true },
+  { label: '∑', title: 'Math (LaTeX)', before: '$', after: '$', placeholder: 'x^2' },
+];
+
+/**
+ * Message input with Markdown formatting toolbar and live preview
+ * Enter sends, Shift+Enter inserts a new line. Files can be dropped, pasted or picked.
+ * Typing @ opens member autocomplete, navigated with the arrow keys and picked with Enter or Tab.
+ */
+const MessageComposer: React.FC<MessageComposerProps> = ({
+  value,
+  onChange,
+  onSend,
+  inputRef,
+  placeholder = 'Type your message...',
+  attachments = [],
+  attachmentError,
+  accept,
+  isUploading = false,
+  onAddFiles,
+  onRemoveAttachment,
+  mentionCandidates,
+  disabledReason,
+}) => {
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState<number>(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const suggestions = useMemo(
+    () => (mention && mentionCandidates ? filterMentionCandidates(mentionCandidates, mention.query) : []),
+    [mention, mentionCandidates]
+  );
+
+  // Follow the caret so the popup opens and closes as the user types or moves around
+  const updateMention = (text: string, caret: number | null) => {
+    const next = caret === null ? null : getMentionQuery(text, caret);
+    if (next?.query === mention?.query && next?.start === mention?.start) return;
+    setMention(next);
+    setActiveSuggestion(0);
+  };
+
+  const insertMention = (member: User) => {
+    if (!mention) return;
+    const end = mention.start + 1 + mention.query.length;
+    const inserted = `@${getMentionHandle(member)} `;
+    onChange(value.slice(0, mention.start) + inserted + value.slice(end));
+    setMention(null);
+    const caret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        insertMention(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSend();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (onAddFiles && e.dataTransfer.files.length) {
+      onAddFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (onAddFiles && e.clipboardData.files.length) {
+      e.preventDefault();
+      onAddFiles(Array.from(e.clipboardData.files));
+    }
+  };
+
+  const applyFormat = (action: FormatAction) => {
+    const textarea = inputRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const selected = value.slice(start, end) || action.placeholder;
+    const formatted = action.linePrefix
+      ? selected.split('\n').map(line => `${action.before}${line}`).join('\n')
+      : `${action.before}${selected}${action.after}`;
+
+    onChange(value.slice(0, start) + formatted + value.slice(end));
+
+    // Select the inner text so it can be typed over
+    const innerStart = start + (action.linePrefix ? 0 : action.before.length);
+    const innerEnd = action.linePrefix ? start + formatted.length : innerStart + selected.length;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(innerStart, innerEnd);
+    });
+  };
+
+  if (disabledReason) {
+    return (
+      <div className="flex items-center gap-2 border border-gray-300 rounded-md bg-gray-100 px-3 py-3 text-sm text-gray-600" role="status">
+        <span aria-hidden="true">🔇</span>
+        <span>{disabledReason}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`relative border rounded-md focus-within:ring-2 focus-within:ring-primary-500 ${isDragging ? 'border-primary-500 bg-primary-50' : 'border-gray-300'}`}
+      onDragOver={e => {
+        if (!onAddFiles) return;
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {suggestions.length > 0 && (
+        <ul
+          className="absolute left-2 bottom-full mb-1 z-20 w-64 max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg py-1"
+          role="listbox"
+        >
+          {suggestions.map((member, index) => (
+            <li key={member.id} role="option" aria-selected={index === activeSuggestion}>
+              <button
+                type="button"
+                className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${index === activeSuggestion ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                // Keep focus in the textarea
+                onMouseDown={e => e.preventDefault()}
+                onMouseEnter={() => setActiveSuggestion(index)}
+                onClick={() => insertMention(member)}
+              >
+                <span className="font-medium truncate">{getUserDisplayName(member)}</span>
+                <span className="text-xs text-gray-500 truncate">@{getMentionHandle(member)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center rounded-md bg-primary-50/90 text-sm font-medium text-primary-700 pointer-events-none">
+          Drop files to attach
+        </div>
+      )}
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-200 bg-gray-50 rounded-t-md">
+        {FORMAT_ACTIONS.map(action => (
+          <button
+            key={action.title}
+            type="button"
+            className="text-xs font-mono px-2 py-1 rounded text-gray-600 hover:bg-gray-200"
+            title={action.title}
+            onClick={() => applyFormat(action)}
+          >
+            {action.label}
+          </button>
+        ))}
+        {onAddFiles && (
+          <>
+            <button
+              type="button"
+              className="text-xs px-2 py-1 rounded text-gray-600 hover:bg-gray-200"
+              title="Attach files"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              📎
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={accept}
+              className="hidden"
+              onChange={e => {
+                if (e.target.files?.length) onAddFiles(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+            />
+          </>
+        )}
+        <button
+          type="button"
+          className={`ml-auto text-xs px-2 py-1 rounded ${showPreview ? 'bg-primary-100 text-primary-700' : 'text-gray-600 hover:bg-gray-200'}`}
+          onClick={() => setShowPreview(prev => !prev)}
+        >
+          Preview
+        </button>
+      </div>
+      {attachments.length > 0 && (
+        <ul className="flex flex-wrap gap-2 px-2 pt-2">
+          {attachments.map(attachment => (
+            <li
+              key={attachment.id}
+              className={`relative flex items-center gap-2 w-56 p-2 rounded-md border text-xs ${attachment.status === 'failed' ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-white'}`}
+            >
+              {attachment.previewUrl ? (
+                <img src={attachment.previewUrl} alt="" className="w-10 h-10 rounded object-cover flex-shrink-0" />
+              ) : (
+                <span className="w-10 h-10 flex items-center justify-center rounded bg-gray-100 text-lg flex-shrink-0">
+                  {attachment.type === MediaType.VIDEO ? '🎬' : '📄'}
+                </span>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-gray-800" title={attachment.file.name}>{attachment.file.name}</p>
+                {attachment.status === 'uploading' ? (
+                  <div className="mt-1 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                    <div className="h-full bg-primary-500 transition-all" style={{ width: `${Math.round(attachment.progress * 100)}%` }} />
+                  </div>
+                ) : attachment.status === 'failed' ? (
+                  <p className="text-red-600 truncate" title={attachment.error}>{attachment.error || 'Upload failed'}</p>
+                ) : (
+                  <p className="text-gray-500">{formatFileSize(attachment.file.size)}</p>
+                )}
+              </div>
+              {onRemoveAttachment && (
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-gray-700"
+                  title={attachment.status === 'uploading' ? 'Cancel upload' : 'Remove'}
+                  onClick={() => onRemoveAttachment(attachment.id)}
+                >
+                  ✕
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {attachmentError && (
+        <p className="px-3 pt-2 text-xs text-red-600 whitespace-pre-line">{attachmentError}</p>
+      )}
+      <div className="flex items-end gap-2 p-2">
+        <textarea
+          ref={inputRef}
+          rows={Math.min(6, Math.max(1, value.split('\n').length))}
+          placeholder={placeholder}
+          value={value}
+          onChange={e => {
+            onChange(e.target.value);
+            updateMention(e.target.value, e.target.selectionStart);
+          }}
+          onSelect={e => updateMention(e.currentTarget.value, e.currentTarget.selectionStart)}
+          onBlur={() => setMention(null)}
+          onPaste={handlePaste}
+          onKeyDown={handleKeyDown}
+          className="flex-1 px-1 py-1 resize-none focus:outline-none"
+        />
+        <button
+          className="bg-primary-600 text-white px-4 py-2 rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          onClick={onSend}
+          disabled={isUploading}
+          title={isUploading ? 'Waiting for uploads to finish' : undefined}
+        >
+          {isUploading ? 'Uploading...' : 'Send'}
+        </button>
+      </div>
+      {showPreview && (
+        <div className="px-3 py-2 border-t border-gray-200 bg-gray-50 rounded-b-md max-h-48 overflow-y-auto">
+          {value.trim() ? (
+            <MarkdownContent content={value} />
+          ) : (
+            <p className="text-xs text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MessageComposer;
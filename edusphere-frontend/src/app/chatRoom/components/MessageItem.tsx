@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from 'react';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Message } from '../../../contexts/authTypes';
+import QuotedMessage from './QuotedMessage';
+import MarkdownContent from './MarkdownContent';
+import MessageAttachment from './MessageAttachment';
+import LinkPreviewCard from './LinkPreviewCard';
+import { extractUrls } from '../utils/links';
+import { getAuthorName, isAssistantMessage } from '../utils/assistant';
+
+interface MessageItemProps {
+  message: Message;
+  isOwn: boolean;
+  quotedParent?: Pick<Message, 'id' | 'content' | 'user' | 'deletedAt'>;
+  replyCount: number;
+  /** Names of members who have read this message; only passed for the user's own messages */
+  seenBy?: string[];
+  isEditing: boolean;
+  currentUserId?: string;
+  /** Whether the current user may pin and unpin messages in this room */
+  canPin?: boolean;
+  /** Whether the current user may delete any message and act against its author */
+  canModerate?: boolean;
+  getReactorNames: (userIds: string[]) => string;
+  onReply: (messageId: string) => void;
+  onOpenThread: (messageId: string) => void;
+  onStartEdit: (messageId: string) => void;
+  onCancelEdit: () => void;
+  onSaveEdit: (messageId: string, content: string) => void;
+  onDelete: (messageId: string) => void;
+  onToggleReaction: (messageId: string, emoji: string) => void;
+  onRetry: (clientId: string) => void;
+  onDiscard: (clientId: string) => void;
+  onTogglePin?: (messageId: string, pin: boolean) => void;
+  /** Open the mute / kick / ban options for the author */
+  onModerate?: (message: Message) => void;
+}
+
+const QUICK_REACTIONS = ['😀', '👍', '❤️'];
+
+/**
+ * Format the time a message was sent as HH:mm
+ */
+const formatTime = (sentAt: string | undefined): string => {
+  if (!sentAt) return 'No time';
+  const date = new Date(sentAt);
+  if (isNaN(date.getTime())) return 'Invalid time';
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+/**
+ * A single chat message with its actions, reactions and thread summary
+ */
+const MessageItem: React.FC<MessageItemProps> = ({
+  message: msg,
+  isOwn,
+  quotedParent,
+  replyCount,
+  seenBy,
+  isEditing,
+  currentUserId,
+  canPin = false,
+  canModerate = false,
+  getReactorNames,
+  onReply,
+  onOpenThread,
+  onStartEdit,
+  onCancelEdit,
+  onSaveEdit,
+  onDelete,
+  onToggleReaction,
+  onRetry,
+  onDiscard,
+  onTogglePin,
+  onModerate,
+}) => {
+  const [editValue, setEditValue] = useState<string>(msg.content);
+
+  const avatarUrl = `https://ui-avatars.com/api/?name=${encodeURIComponent(msg.user?.username || 'User')}`;
+
+
+  // Optimistic messages can't be edited, reacted to or replied to until the server has stored them
+  const isUnconfirmed = msg.status === 'pending' || msg.status === 'failed';
+  const previewUrls = useMemo(() => (msg.deletedAt ? [] : extractUrls(msg.content)), [msg.content, msg.deletedAt]);
+  const mentionsMe = !!currentUserId && !msg.deletedAt && !!msg.mentions?.some(m => m.userId === currentUserId);
+  const isAnnouncement = msg.type === MessageType.ANNOUNCEMENT && !msg.deletedAt;
+  const isAssistant = isAssistantMessage(msg);
+
+  const handleCopy = () => {
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(msg.content);
+    }
+  };
+
+  const handleSave = () => {
+    if (!editValue.trim()) return;
+    onSaveEdit(msg.id, editValue);
+  };
+
+  const handleCancel = () => {
+    setEditValue(msg.content);
+    onCancelEdit();
+  };
+
+  return (
+    <div
+      className={`group flex items-start gap-3 p-2 rounded-lg transition-all ${
+        isAnnouncement
+          ? 'bg-blue-50 border-l-4 border-blue-500 hover:bg-blue-100'
+          : isAssistant && !msg.deletedAt
+            ? 'bg-purple-50 border-l-4 border-purple-400 hover:bg-purple-100'
+            : mentionsMe
+              ? 'bg-amber-50 border-l-4 border-amber-400 hover:bg-amber-100'
+              : 'hover:bg-gray-100'
+      } ${msg.status === 'pending' ? 'opacity-60' : ''}`}
+    >
+      {isAssistant ? (
+        <span className="w-8 h-8 flex-shrink-0 rounded-full bg-purple-100 flex items-center justify-center mr-2" aria-label="Assistant avatar">🤖</span>
+      ) : (
+        <img src={avatarUrl} alt="avatar" className="w-8 h-8 rounded-full object-cover mr-2" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className={`font-semibold ${isAssistant ? 'text-purple-700' : 'text-primary-700'}`}>{getAuthorName(msg)}</span>
+          <span className="text-xs text-gray-400">{formatTime(msg.sent_at)}</span>
+          {isAssistant && (
+            <span
+              className="text-xs font-semibold px-1.5 py-0.5 rounded bg-purple-100 text-purple-700"
+              title={`Answer to a question from ${msg.user?.username || 'a member'}`}
+            >
+              ✨ AI-generated
+            </span>
+          )}
+          {isAnnouncement && (
+            <span className="text-xs font-semibold px-1.5 py-0.5 rounded bg-blue-100 text-blue-700">📢 Announcement</span>
+          )}
+          {msg.pinnedAt && !msg.deletedAt && (
+            <span className="text-xs text-amber-700" title={`Pinned ${new Date(msg.pinnedAt).toLocaleString()}`}>📌 Pinned</span>
+          )}
+          {msg.status === 'pending' ? (
+            <span className="text-xs text-gray-400 ml-2" title="Sending...">🕓 Sending...</span>
+          ) : msg.status === 'failed' ? (
+            <span className="text-xs text-red-500 ml-2">Failed to send</span>
+          ) : seenBy ? (
+            <span
+              className={`text-xs ml-2 ${seenBy.length ? 'text-green-500' : 'text-gray-400'}`}
+              title={seenBy.length ? `Seen by ${seenBy.join(', ')}` : 'Delivered'}
+            >
+              {seenBy.length ? `✓✓ Seen by ${seenBy.length}` : '✓'}
+            </span>
+          ) : null}
+          {msg.editedAt && !msg.deletedAt && (
+            <span className="text-xs text-gray-400 italic" title={new Date(msg.editedAt).toLocaleString()}>(edited)</span>
+          )}
+        </div>
+        {quotedParent && (
+          <div className="mt-1">
+            <QuotedMessage message={quotedParent} onClick={() => onOpenThread(quotedParent.id)} />
+          </div>
+        )}
+        <div className="mt-1">
+          {msg.deletedAt ? (
+            <span className="text-gray-400 italic">This message was deleted</span>
+          ) : isEditing ? (
+            <div className="flex items-start gap-2">
+              <textarea
+                className="border px-2 py-1 rounded w-full resize-y"
+                rows={Math.min(6, editValue.split('\n').length)}
+                value={editValue}
+                autoFocus
+                onChange={e => setEditValue(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                  if (e.key === 'Escape') handleCancel();
+                }}
+              />
+              <button className="text-xs px-2 py-1 rounded bg-primary-600 text-white" onClick={handleSave}>Save</button>
+              <button className="text-xs px-2 py-1 rounded bg-gray-300" onClick={handleCancel}>Cancel</button>
+            </div>
+          ) : (
+            <>
+              {msg.media && (
+                <div className={msg.content ? 'mb-1' : ''}>
+                  <MessageAttachment media={msg.media} />
+                </div>
+              )}
+              {msg.content && <MarkdownContent content={msg.content} mentions={msg.mentions} currentUserId={currentUserId} />}
+              {previewUrls.map(url => <LinkPreviewCard key={url} url={url} />)}
+            </>
+          )}
+        </div>
+        {!msg.deletedAt && msg.reactions && Object.keys(msg.reactions).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {Object.entries(msg.reactions).map(([emoji, userIds]) => {
+              const mine = !!currentUserId && userIds.includes(currentUserId);
+              return (
+                <button
+                  key={emoji}
+                  className={`text-xs px-2 py-0.5 rounded-full border ${mine ? 'bg-primary-100 border-primary-400 text-primary-700' : 'bg-white border-gray-300 text-gray-600'}`}
+                  title={getReactorNames(userIds)}
+                  onClick={() => onToggleReaction(msg.id, emoji)}
+                >
+                  {emoji} {userIds.length}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {msg.status === 'failed' && msg.clientId && (
+          <div className="flex gap-2 mt-1">
+            <button className="text-xs px-2 py-1 rounded bg-primary-600 text-white hover:bg-primary-700" onClick={() => onRetry(msg.clientId!)}>Retry</button>
+            <button className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300" onClick={() => onDiscard(msg.clientId!)}>Discard</button>
+          </div>
+        )}
+        {!msg.deletedAt && !isUnconfirmed && (
+          <div className="flex gap-2 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Reply" onClick={() => onReply(msg.id)}>↩️ Reply</button>
+            <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Open thread" onClick={() => onOpenThread(msg.id)}>🧵 Thread</button>
+            <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Copy" onClick={handleCopy}>📋 Copy</button>
+            {canPin && onTogglePin && (
+              <button
+                className="text-xs px-2 py-1 rounded hover:bg-gray-200"
+                title={msg.pinnedAt ? 'Unpin' : 'Pin to the top of the room'}
+                onClick={() => onTogglePin(msg.id, !msg.pinnedAt)}
+              >
+                📌 {msg.pinnedAt ? 'Unpin' : 'Pin'}
+              </button>
+            )}
+            {isOwn && !isAssistant && (
+              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Edit" onClick={() => { setEditValue(msg.content); onStartEdit(msg.id); }}>✏️ Edit</button>
+            )}
+            {(isAssistant ? canModerate : isOwn || canModerate) && (
+              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Delete" onClick={() => onDelete(msg.id)}>🗑️ Delete</button>
+            )}
+            {!isOwn && !isAssistant && canModerate && onModerate && (
+              <button className="text-xs px-2 py-1 rounded hover:bg-gray-200" title="Mute, kick or ban the author" onClick={() => onModerate(msg)}>🛡️ Moderate</button>
+            )}
+            <div className="flex gap-1">
+              {QUICK_REACTIONS.map(emoji => (
+                <button
+                  key={emoji}
+                  className="text-xs px-1 rounded hover:bg-gray-200"
+                  title="React"
+                  onClick={() => onToggleReaction(msg.id, emoji)}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {replyCount > 0 && (
+          <button
+            className="mt-1 text-xs text-primary-600 hover:underline"
+            onClick={() => onOpenThread(msg.id)}
+          >
+            {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default React.memo(MessageItem);
@@ -1,20 +1,188 @@
-import React from 'react';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import type { Message } from '../../../contexts/authTypes';
+import { buildMessageRows } from '../utils/messageRows';
+import type { MessageRow } from '../utils/messageRows';
+import { useVirtualList } from '../hooks/useVirtualList';
 
 interface MessageListProps {
   messages: Message[];
+  renderMessage: (message: Message) => React.ReactNode;
+  hasMore?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  /** The timeline is a window of older history; newer pages load when scrolling down */
+  hasNewer?: boolean;
+  isLoadingNewer?: boolean;
+  onLoadNewer?: () => void;
+  /** Called with the newest message currently scrolled into view */
+  onMessageVisible?: (message: Message) => void;
+  /** Draw an unread divider after this message */
+  unreadAfterId?: string | null;
+  /** Scroll this message into view whenever it changes */
+  focusMessageId?: string | null;
+  className?: string;
 }
 
-const MessageList: React.FC<MessageListProps> = ({ messages }) => (
-  <ul className="space-y-2">
-    {messages.map(msg => (
-      <li key={msg.id} className="bg-white rounded px-3 py-2 shadow text-sm flex items-center">
-        <span className="font-semibold text-primary-600 mr-2">{msg.user.username || 'Unknown'}:</span>
-        <span>{msg.content}</span>
-        <span className="ml-2 text-xs text-gray-400">{new Date(msg.sent_at).toLocaleTimeString()}</span>
-      </li>
-    ))}
-  </ul>
-);
+/** Initial height guesses before rows are measured */
+const ESTIMATED_MESSAGE_HEIGHT = 72;
+const ESTIMATED_DATE_HEIGHT = 32;
+
+/**
+ * Timeline rows plus the "beginning of the conversation" marker shown once history is
+ * exhausted and the unread divider
+ */
+type TimelineRow =
+  | MessageRow
+  | { type: 'start'; key: string; label: string }
+  | { type: 'unread'; key: string; label: string };
+
+/** Distance from the top (px) at which older history is requested */
+const LOAD_OLDER_THRESHOLD = 200;
+/** Rows from the end at which newer history is requested */
+const LOAD_NEWER_THRESHOLD = 3;
+
+/**
+ * Virtualized chat timeline
+ * Only the rows around the viewport are mounted; date separators are inline rows and
+ * the label of the topmost visible day is pinned to the top of the pane.
+ */
+const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  renderMessage,
+  hasMore = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  hasNewer = false,
+  isLoadingNewer = false,
+  onLoadNewer,
+  onMessageVisible,
+  unreadAfterId,
+  focusMessageId,
+  className = '',
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const rows = useMemo<TimelineRow[]>(() => {
+    const timeline: TimelineRow[] = buildMessageRows(messages);
+    if (unreadAfterId) {
+      const index = timeline.findIndex(row => row.type === 'message' && row.message.id === unreadAfterId);
+      if (index !== -1 && index < timeline.length - 1) {
+        timeline.splice(index + 1, 0, { type: 'unread', key: '__unread', label: timeline[index].label });
+      }
+    }
+    if (hasMore || !timeline.length) return timeline;
+    return [{ type: 'start', key: '__start', label: timeline[0].label }, ...timeline];
+  }, [messages, hasMore, unreadAfterId]);
+  const keys = useMemo(() => rows.map(row => row.key), [rows]);
+  const estimateSize = useCallback(
+    (index: number) => (rows[index]?.type === 'message' ? ESTIMATED_MESSAGE_HEIGHT : ESTIMATED_DATE_HEIGHT),
+    [rows]
+  );
+
+  const { virtualItems, totalSize, firstVisibleIndex, lastVisibleIndex, measureElement, scrollToIndex } = useVirtualList({
+    keys,
+    estimateSize,
+    scrollRef,
+    // Appending newer pages of a detached window must not yank the view to the bottom
+    followOutput: !hasNewer,
+  });
+
+  // Bring the unread divider into view once, when it first appears
+  const unreadIndex = keys.indexOf('__unread');
+  const scrolledToUnread = useRef<boolean>(false);
+  useEffect(() => {
+    if (unreadIndex !== -1 && !scrolledToUnread.current) {
+      scrolledToUnread.current = true;
+      scrollToIndex(Math.max(0, unreadIndex - 1));
+    }
+  }, [unreadIndex, scrollToIndex]);
+
+  // Jump to a specific message, keeping the row above it for context
+  const focusIndex = focusMessageId ? rows.findIndex(row => row.type === 'message' && row.message.id === focusMessageId) : -1;
+  const isFocusLoaded = focusIndex !== -1;
+  useEffect(() => {
+    if (isFocusLoaded) {
+      scrollToIndex(Math.max(0, focusIndex - 1));
+    }
+    // Only when a new target is requested or becomes loaded, not every time rows shift
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusMessageId, isFocusLoaded, scrollToIndex]);
+
+  // Report the newest visible message while the tab is in the foreground
+  let newestVisible: Message | undefined;
+  for (let i = lastVisibleIndex; i >= firstVisibleIndex && i >= 0; i--) {
+    const row = rows[i];
+    if (row?.type === 'message') {
+      newestVisible = row.message;
+      break;
+    }
+  }
+  useEffect(() => {
+    if (newestVisible && onMessageVisible && document.visibilityState === 'visible') {
+      onMessageVisible(newestVisible);
+    }
+  }, [newestVisible, onMessageVisible]);
+
+  // Request older history when the viewport nears the top
+  const firstVisibleStart = virtualItems.find(item => item.index === firstVisibleIndex)?.start ?? 0;
+  useEffect(() => {
+    if (hasMore && !isLoadingOlder && onLoadOlder && rows.length && firstVisibleStart < LOAD_OLDER_THRESHOLD) {
+      onLoadOlder();
+    }
+  }, [hasMore, isLoadingOlder, onLoadOlder, rows.length, firstVisibleStart]);
+
+  // Request newer history when the end of a detached window comes into view
+  useEffect(() => {
+    if (hasNewer && !isLoadingNewer && onLoadNewer && rows.length && lastVisibleIndex >= rows.length - LOAD_NEWER_THRESHOLD) {
+      onLoadNewer();
+    }
+  }, [hasNewer, isLoadingNewer, onLoadNewer, rows.length, lastVisibleIndex]);
+
+  const stickyLabel = rows[firstVisibleIndex]?.label;
+
+  return (
+    <div ref={scrollRef} className={`relative overflow-y-auto ${className}`}>
+      <div className="sticky top-0 z-10 h-0">
+        {isLoadingOlder ? (
+          <p className="mx-auto w-max text-xs text-gray-500 bg-white/90 shadow-sm px-3 py-1 rounded-full mt-1">Loading older messages...</p>
+        ) : stickyLabel ? (
+          <p className="mx-auto w-max text-xs text-gray-600 bg-gray-200 px-2 py-1 rounded mt-1">{stickyLabel}</p>
+        ) : null}
+      </div>
+      <ul className="relative" style={{ height: totalSize }}>
+        {virtualItems.map(item => {
+          const row = rows[item.index];
+          return (
+            <li
+              key={row.key}
+              data-key={row.key}
+              ref={measureElement}
+              className="absolute left-0 right-0"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              {row.type === 'start' ? (
+                <p className="text-center text-xs text-gray-400 pt-8 pb-2">Beginning of the conversation</p>
+              ) : row.type === 'unread' ? (
+                <div className="flex items-center gap-2 py-2" role="separator">
+                  <div className="flex-1 border-t border-red-300" />
+                  <span className="text-xs font-medium text-red-500">New messages</span>
+                  <div className="flex-1 border-t border-red-300" />
+                </div>
+              ) : row.type === 'date' ? (
+                <div className="py-2">
+                  <p className="mx-auto w-max text-xs text-gray-600 bg-gray-200 px-2 py-1 rounded">{row.label}</p>
+                </div>
+              ) : (
+                renderMessage(row.message)
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {isLoadingNewer && (
+        <p className="text-center text-xs text-gray-500 py-2">Loading newer messages...</p>
+      )}
+    </div>
+  );
+};
 
 export default MessageList;
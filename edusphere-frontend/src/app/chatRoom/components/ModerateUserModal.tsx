@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import type { Message } from '../../../contexts/authTypes';
+import type { RoomRestriction } from '../../../services/moderation';
+
+type Action = 'mute' | 'kick' | 'ban';
+
+interface ModerateUserModalProps {
+  message: Message;
+  /** The author's active mute, if any */
+  mute?: RoomRestriction | null;
+  onMute: (userId: string, minutes: number | undefined, reason?: string) => Promise<void>;
+  onUnmute: (userId: string) => Promise<void>;
+  onKick: (userId: string, reason?: string) => Promise<void>;
+  onBan: (userId: string, reason?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const MUTE_PRESETS = [5, 15, 60, 24 * 60];
+
+const ACTIONS: { key: Action; label: string; description: string }[] = [
+  { key: 'mute', label: '🔇 Mute', description: 'Can read the room but not post' },
+  { key: 'kick', label: '👢 Kick', description: 'Removed from the room; may join again' },
+  { key: 'ban', label: '⛔ Ban', description: 'Removed from the room and cannot rejoin' },
+];
+
+const formatMinutes = (minutes: number): string => (
+  minutes % (24 * 60) === 0 ? `${minutes / (24 * 60)} day${minutes === 24 * 60 ? '' : 's'}`
+    : minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}`
+      : `${minutes} min`
+);
+
+/**
+ * Mute, kick or ban the author of a message
+ */
+const ModerateUserModal: React.FC<ModerateUserModalProps> = ({ message, mute, onMute, onUnmute, onKick, onBan, onClose }) => {
+  const [action, setAction] = useState<Action>('mute');
+  const [minutes, setMinutes] = useState<string>('15');
+  const [reason, setReason] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const targetId = String(message.user_id ?? message.user?.id);
+  const targetName = message.user?.username || 'this user';
+  // An empty duration mutes until lifted by hand
+  const duration = minutes.trim() ? Number(minutes) : undefined;
+  const isDurationValid = duration === undefined || (Number.isInteger(duration) && duration > 0);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await task();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Moderation action failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const trimmed = reason.trim() || undefined;
+    if (action === 'mute') {
+      if (!isDurationValid) return;
+      run(() => onMute(targetId, duration, trimmed));
+    } else if (action === 'kick') {
+      run(() => onKick(targetId, trimmed));
+    } else if (window.confirm(`Ban ${targetName} from this room?`)) {
+      run(() => onBan(targetId, trimmed));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Moderate {targetName}</h3>
+          <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        {mute && (
+          <div className="flex items-center justify-between gap-2 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-sm text-amber-800">
+            <span>
+              Muted {mute.expiresAt ? `until ${new Date(mute.expiresAt).toLocaleString()}` : 'until unmuted'}
+            </span>
+            <button
+              className="text-xs px-2 py-1 rounded border border-amber-300 hover:bg-amber-100 disabled:opacity-50"
+              disabled={isSubmitting}
+              onClick={() => run(() => onUnmute(targetId))}
+            >
+              Unmute
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {ACTIONS.map(option => (
+            <label
+              key={option.key}
+              className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${action === option.key ? 'border-primary-400 bg-primary-50' : 'border-gray-200 hover:bg-gray-50'}`}
+            >
+              <input
+                type="radio"
+                name="moderation-action"
+                checked={action === option.key}
+                onChange={() => setAction(option.key)}
+                className="mt-1 text-primary-600 focus:ring-primary-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {action === 'mute' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Duration (minutes)</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={minutes}
+                onChange={e => setMinutes(e.target.value)}
+                placeholder="Until unmuted"
+                className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+              {MUTE_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  type="button"
+                  className={`text-xs px-2 py-1 rounded border ${Number(minutes) === preset ? 'border-primary-400 bg-primary-50 text-primary-700' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+                  onClick={() => setMinutes(String(preset))}
+                >
+                  {formatMinutes(preset)}
+                </button>
+              ))}
+            </div>
+            {!isDurationValid && <p className="text-xs text-red-600 mt-1">Enter a whole number of minutes.</p>}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+          <input
+            type="text"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Shown to the user and recorded in the moderation log"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || (action === 'mute' && !isDurationValid)}
+            className={`text-white px-4 py-2 rounded-lg transition-colors duration-200 disabled:opacity-50 ${action === 'mute' ? 'bg-primary-600 hover:bg-primary-700' : 'bg-red-600 hover:bg-red-700'}`}
+          >
+            {isSubmitting ? 'Applying...' : action === 'mute' ? 'Mute' : action === 'kick' ? 'Kick' : 'Ban'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModerateUserModal;
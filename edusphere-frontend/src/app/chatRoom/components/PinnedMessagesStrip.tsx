@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Message } from '../../../contexts/authTypes';
+
+interface PinnedMessagesStripProps {
+  messages: Message[];
+  canUnpin: boolean;
+  onJumpToMessage: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+/**
+ * Single-line preview of a pinned message, with Markdown syntax left as typed
+ */
+const preview = (msg: Message): string => {
+  const text = msg.content.replace(/\s+/g, ' ').trim();
+  if (text) return text;
+  return msg.media ? `📎 ${msg.media.fileName || 'Attachment'}` : '';
+};
+
+/**
+ * Pinned messages above the timeline; shows the latest pin and expands to the full list
+ */
+const PinnedMessagesStrip: React.FC<PinnedMessagesStripProps> = ({ messages, canUnpin, onJumpToMessage, onUnpin }) => {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+
+  if (!messages.length) return null;
+
+  const visible = isExpanded ? messages : messages.slice(0, 1);
+
+  return (
+    <div className="mb-3 rounded-lg border border-amber-200 bg-amber-50">
+      <div className="flex items-center justify-between px-3 py-1.5">
+        <span className="text-xs font-semibold text-amber-800">📌 {messages.length} pinned</span>
+        {messages.length > 1 && (
+          <button className="text-xs text-amber-700 hover:underline" onClick={() => setIsExpanded(prev => !prev)}>
+            {isExpanded ? 'Show less' : 'Show all'}
+          </button>
+        )}
+      </div>
+      <ul className={`border-t border-amber-200 ${isExpanded ? 'max-h-48 overflow-y-auto' : ''}`}>
+        {visible.map(msg => (
+          <li key={msg.id} className="group flex items-center gap-2 px-3 py-1.5 hover:bg-amber-100">
+            <button
+              className="flex-1 min-w-0 text-left text-sm truncate"
+              onClick={() => onJumpToMessage(msg.id)}
+              title="Jump to message"
+            >
+              {msg.type === MessageType.ANNOUNCEMENT && <span className="mr-1">📢</span>}
+              <span className="font-medium text-gray-800">{msg.user?.username || 'Unknown User'}:</span>{' '}
+              <span className="text-gray-700">{preview(msg)}</span>
+            </button>
+            {canUnpin && (
+              <button
+                className="text-xs text-amber-700 opacity-0 group-hover:opacity-100 hover:underline"
+                onClick={() => onUnpin(msg.id)}
+              >
+                Unpin
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PinnedMessagesStrip;
@@ -0,0 +1,26 @@
+import React from 'react';
+import type { Message } from '../../../contexts/authTypes';
+
+interface QuotedMessageProps {
+  message: Pick<Message, 'id' | 'content' | 'user' | 'deletedAt'>;
+  onClick?: () => void;
+}
+
+/**
+ * Compact preview of the message being replied to
+ */
+const QuotedMessage: React.FC<QuotedMessageProps> = ({ message, onClick }) => (
+  <div
+    className={`border-l-4 border-primary-300 bg-white/70 pl-2 pr-3 py-1 rounded text-xs text-gray-600 max-w-md ${onClick ? 'cursor-pointer hover:bg-white' : ''}`}
+    onClick={onClick}
+  >
+    <span className="font-semibold text-primary-700 mr-1">{message.user?.username || 'Unknown User'}</span>
+    {message.deletedAt ? (
+      <span className="italic text-gray-400">This message was deleted</span>
+    ) : (
+      <span className="line-clamp-2 break-words">{message.content}</span>
+    )}
+  </div>
+);
+
+export default QuotedMessage;
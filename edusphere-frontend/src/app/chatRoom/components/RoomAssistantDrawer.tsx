@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import MarkdownContent from './MarkdownContent';
+import { useRoomDigest } from '../hooks/useRoomDigest';
+import { DEFAULT_ROOM_DIGEST_LIMIT, ROOM_DIGEST_LIMITS } from '../utils/roomDigest';
+
+interface RoomAssistantDrawerProps {
+  roomId: string;
+  roomName: string;
+  userId?: string;
+  onClose: () => void;
+}
+
+const QuestionList: React.FC<{ title: string; questions: string[]; empty: string }> = ({ title, questions, empty }) => (
+  <section>
+    <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{title}</h3>
+    {questions.length ? (
+      <ul className="list-disc pl-5 space-y-1 text-sm text-gray-800">
+        {questions.map((question, index) => <li key={index}>{question}</li>)}
+      </ul>
+    ) : (
+      <p className="text-sm text-gray-400">{empty}</p>
+    )}
+  </section>
+);
+
+/**
+ * Side drawer asking the AI assistant to digest the room's recent messages
+ */
+const RoomAssistantDrawer: React.FC<RoomAssistantDrawerProps> = ({ roomId, roomName, userId, onClose }) => {
+  const [limit, setLimit] = useState<number>(DEFAULT_ROOM_DIGEST_LIMIT);
+  const { digest, messageCount, generatedAt, isLoading, error, generate } = useRoomDigest(roomId, roomName, userId);
+
+  // Digest as soon as the drawer opens
+  useEffect(() => {
+    generate(DEFAULT_ROOM_DIGEST_LIMIT);
+  }, [generate]);
+
+  return (
+    <aside className="w-full lg:w-80 flex-shrink-0 bg-gray-50 rounded-lg border border-gray-200 flex flex-col max-h-[32rem]">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-800">🤖 Ask AI about this room</h2>
+        <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close assistant">✕</button>
+      </div>
+      <div className="flex items-center gap-2 p-3 border-b border-gray-200 bg-white">
+        <label className="text-xs text-gray-600" htmlFor="room-digest-limit">Last</label>
+        <select
+          id="room-digest-limit"
+          value={limit}
+          onChange={e => setLimit(Number(e.target.value))}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          {ROOM_DIGEST_LIMITS.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        <span className="text-xs text-gray-600">messages</span>
+        <button
+          className="ml-auto text-xs px-3 py-1 rounded bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50"
+          onClick={() => generate(limit)}
+          disabled={isLoading}
+        >
+          {digest ? 'Refresh' : 'Summarize'}
+        </button>
+      </div>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4" aria-live="polite">
+        {isLoading ? (
+          <p className="text-sm text-gray-400 animate-pulse">Reading the conversation...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : digest ? (
+          <>
+            <section>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">Summary</h3>
+              <div className="text-sm">
+                <MarkdownContent content={digest.summary} />
+              </div>
+            </section>
+            <QuestionList title="Key questions" questions={digest.keyQuestions} empty="No questions were asked." />
+            <QuestionList title="Unanswered" questions={digest.unansweredQuestions} empty="Every question has an answer." />
+            {generatedAt && (
+              <p className="text-xs text-gray-400">
+                Based on {messageCount} {messageCount === 1 ? 'message' : 'messages'} · {new Date(generatedAt).toLocaleString()}
+                <br />
+                AI-generated; check important details in the conversation.
+              </p>
+            )}
+          </>
+        ) : null}
+      </div>
+    </aside>
+  );
+};
+
+export default RoomAssistantDrawer;
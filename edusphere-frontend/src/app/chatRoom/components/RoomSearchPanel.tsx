@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import SearchResultItem from '../../../components/SearchResultItem';
+import { useMessageSearch } from '../../../hooks/useMessageSearch';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import type { Message, User } from '../../../contexts/authTypes';
+
+interface RoomSearchPanelProps {
+  roomId: string;
+  members: User[];
+  onJumpToMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Side panel searching the current room's history
+ */
+const RoomSearchPanel: React.FC<RoomSearchPanelProps> = ({ roomId, members, onJumpToMessage, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [authorId, setAuthorId] = useState<string>('');
+  const { results, total, isLoading, error, hasMore, loadMore, isActive } = useMessageSearch({
+    query,
+    roomId,
+    userId: authorId || undefined,
+  });
+
+  return (
+    <aside className="w-full lg:w-80 flex-shrink-0 bg-gray-50 rounded-lg border border-gray-200 flex flex-col max-h-[32rem]">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h2 className="text-sm font-semibold text-gray-800">Search this room</h2>
+        <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close search">✕</button>
+      </div>
+      <div className="p-3 space-y-2 border-b border-gray-200 bg-white">
+        <input
+          type="search"
+          autoFocus
+          placeholder="Search messages..."
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+          className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <select
+          value={authorId}
+          onChange={e => setAuthorId(e.target.value)}
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          <option value="">Anyone</option>
+          {members.map(member => (
+            <option key={member.id} value={String(member.id)}>{getUserDisplayName(member)}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex-1 overflow-y-auto p-2">
+        {!isActive ? (
+          <p className="text-xs text-gray-400 px-2 py-4 text-center">Type at least 2 characters to search</p>
+        ) : error ? (
+          <p className="text-sm text-red-600 px-2">{error}</p>
+        ) : !results.length ? (
+          <p className="text-xs text-gray-400 px-2 py-4 text-center">{isLoading ? 'Searching...' : 'No matching messages'}</p>
+        ) : (
+          <>
+            <p className="text-xs text-gray-500 px-3 pb-1">{total} {total === 1 ? 'result' : 'results'}</p>
+            <ul className="space-y-1">
+              {results.map((message: Message) => (
+                <li key={message.id}>
+                  <SearchResultItem message={message} query={query} onSelect={m => onJumpToMessage(m.id)} />
+                </li>
+              ))}
+            </ul>
+            {hasMore && (
+              <button
+                className="w-full mt-2 text-xs text-primary-600 hover:underline disabled:text-gray-400"
+                onClick={loadMore}
+                disabled={isLoading}
+              >
+                {isLoading ? 'Loading...' : 'Show more results'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default RoomSearchPanel;
@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RoomService } from '../../../services/room';
+import MarkdownContent from './MarkdownContent';
+import { extractMentions } from '../utils/mentions';
+import { getAuthorName, isAssistantMessage } from '../utils/assistant';
+import type { SendMessageOptions } from '../hooks/useChatRoom';
+import type { Message, User } from '../../../contexts/authTypes';
+
+interface ThreadPanelProps {
+  roomId: string;
+  parent: Message;
+  /** Replies already known to the room timeline, including live ones */
+  liveReplies: Message[];
+  /** May reject with a reason to show, e.g. when the content filter blocks the reply */
+  onSend: (content: string, options: SendMessageOptions) => Promise<boolean>;
+  onClose: () => void;
+  /** Room members, used to resolve @mentions typed in replies */
+  members?: User[];
+  currentUserId?: string;
+  /** Locks the reply box with this explanation, e.g. while the user is muted */
+  disabledReason?: string | null;
+}
+
+/**
+ * Side panel showing a message and all of its replies
+ * Loads the full thread from the API and merges in replies arriving over the socket
+ */
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  roomId,
+  parent,
+  liveReplies,
+  onSend,
+  onClose,
+  members = [],
+  currentUserId,
+  disabledReason,
+}) => {
+  const [fetchedReplies, setFetchedReplies] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isCollapsed, setIsCollapsed] = useState<boolean>(false);
+  const [input, setInput] = useState('');
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchThread = async (): Promise<void> => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const replies = await RoomService.getThread(roomId, parent.id);
+        if (!cancelled) setFetchedReplies(replies || []);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load thread');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchThread();
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, parent.id]);
+
+  // Live copies win over fetched ones so edits, deletes and reactions stay current
+  const replies = useMemo(() => {
+    const byId = new Map<string, Message>();
+    fetchedReplies.forEach(r => byId.set(r.id, r));
+    liveReplies.forEach(r => byId.set(r.id, r));
+    return [...byId.values()].sort((a, b) => new Date(a.sent_at).getTime() - new Date(b.sent_at).getTime());
+  }, [fetchedReplies, liveReplies]);
+
+  const handleSend = async () => {
+    if (!input.trim() || disabledReason) return;
+    setSendError(null);
+    try {
+      await onSend(input, { parentId: parent.id, mentions: extractMentions(input, members) });
+      setInput('');
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : 'Failed to send reply');
+    }
+  };
+
+  return (
+    <aside className="w-full lg:w-80 flex-shrink-0 bg-gray-50 rounded-lg border border-gray-200 flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <button
+          className="text-sm font-semibold text-gray-800 flex items-center gap-1"
+          onClick={() => setIsCollapsed(prev => !prev)}
+          title={isCollapsed ? 'Expand thread' : 'Collapse thread'}
+        >
+          <span>{isCollapsed ? '▸' : '▾'}</span>
+          Thread
+          <span className="text-xs font-normal text-gray-500">({replies.length} {replies.length === 1 ? 'reply' : 'replies'})</span>
+        </button>
+        <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close thread">✕</button>
+      </div>
+      {!isCollapsed && (
+        <>
+          <div className="p-3 border-b border-gray-200 bg-white">
+            <span className="font-semibold text-primary-700 text-sm">{getAuthorName(parent)}</span>
+            <div className="text-sm mt-1">
+              {parent.deletedAt ? <span className="italic text-gray-400">This message was deleted</span> : <MarkdownContent content={parent.content} mentions={parent.mentions} currentUserId={currentUserId} />}
+            </div>
+          </div>
+          <ul className="flex-1 overflow-y-auto p-3 space-y-2 max-h-72">
+            {isLoading && replies.length === 0 ? (
+              <li className="text-gray-400 text-sm">Loading replies...</li>
+            ) : error ? (
+              <li className="text-red-600 text-sm">{error}</li>
+            ) : replies.length === 0 ? (
+              <li className="text-gray-400 text-sm">No replies yet. Start the thread!</li>
+            ) : (
+              replies.map(reply => (
+                <li key={reply.id} className="text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${isAssistantMessage(reply) ? 'text-purple-700' : 'text-primary-700'}`}>{getAuthorName(reply)}</span>
+                    {isAssistantMessage(reply) && (
+                      <span className="text-xs font-semibold px-1.5 py-0.5 rounded bg-purple-100 text-purple-700">🤖 AI-generated</span>
+                    )}
+                    <span className="text-xs text-gray-400">
+                      {new Date(reply.sent_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })}
+                    </span>
+                  </div>
+                  <div>
+                    {reply.deletedAt ? <span className="italic text-gray-400">This message was deleted</span> : <MarkdownContent content={reply.content} mentions={reply.mentions} currentUserId={currentUserId} />}
+                  </div>
+                </li>
+              ))
+            )}
+          </ul>
+          {sendError && <p className="px-3 pt-2 text-xs text-red-600">{sendError}</p>}
+          <div className="flex gap-2 p-3 border-t border-gray-200">
+            <input
+              type="text"
+              placeholder={disabledReason || 'Reply in thread...'}
+              title={disabledReason || undefined}
+              disabled={!!disabledReason}
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') handleSend(); }}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+            />
+            <button
+              className="bg-primary-600 text-white text-sm px-3 py-1 rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+              onClick={handleSend}
+              disabled={!!disabledReason}
+            >
+              Reply
+            </button>
+          </div>
+        </>
+      )}
+    </aside>
+  );
+};
+
+export default ThreadPanel;
@@ -0,0 +1,160 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MediaService } from '../../../services/media';
+import { SettingsService, DEFAULT_STORAGE_SETTINGS } from '../../../services/settings';
+import { MediaType } from '../../../contexts/authTypes';
+import type { Media } from '../../../contexts/authTypes';
+import type { StorageSettings } from '../../../services/settings';
+import { generateClientId } from '../utils/outbox';
+import { getMediaType, validateAttachment } from '../utils/attachments';
+
+export type AttachmentStatus = 'uploading' | 'uploaded' | 'failed';
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  type: MediaType;
+  status: AttachmentStatus;
+  /** Uploaded fraction, from 0 to 1 */
+  progress: number;
+  /** Object URL for image thumbnails in the composer */
+  previewUrl?: string;
+  media?: Media;
+  error?: string;
+}
+
+/**
+ * Attachments being prepared in the composer
+ * Files are validated against the admin storage settings and uploaded right away, so sending
+ * only has to reference the stored Media records.
+ */
+export function useAttachments(
+  roomId: string | undefined,
+  userId: string | undefined
+): {
+  attachments: PendingAttachment[];
+  storageSettings: StorageSettings;
+  isUploading: boolean;
+  attachmentError: string | null;
+  addFiles: (files: File[]) => void;
+  removeAttachment: (id: string) => void;
+  clearAttachments: () => void;
+} {
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [storageSettings, setStorageSettings] = useState<StorageSettings>(DEFAULT_STORAGE_SETTINGS);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const controllers = useRef<Map<string, AbortController>>(new Map());
+  const attachmentsRef = useRef<PendingAttachment[]>([]);
+
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+
+  // Limits are enforced by the server as well; the defaults are only a fallback for the client-side check
+  useEffect(() => {
+    let cancelled = false;
+    SettingsService.getStorageSettings()
+      .then(settings => {
+        if (!cancelled) setStorageSettings(settings);
+      })
+      .catch(err => console.error('Failed to load storage settings:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Abort uploads and release thumbnails when leaving the room
+  useEffect(() => {
+    const activeControllers = controllers.current;
+    return () => {
+      activeControllers.forEach(controller => controller.abort());
+      activeControllers.clear();
+      attachmentsRef.current.forEach(a => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+      setAttachments([]);
+    };
+  }, [roomId]);
+
+  const update = (id: string, changes: Partial<PendingAttachment>) => {
+    setAttachments(prev => prev.map(a => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const upload = useCallback(async (attachment: PendingAttachment) => {
+    if (!roomId || !userId) return;
+    const controller = new AbortController();
+    controllers.current.set(attachment.id, controller);
+    try {
+      const media = await MediaService.uploadFile(
+        { file: attachment.file, roomId, userId },
+        {
+          signal: controller.signal,
+          onProgress: progress => update(attachment.id, { progress }),
+        }
+      );
+      update(attachment.id, { status: 'uploaded', progress: 1, media });
+    } catch (err) {
+      // Cancelled uploads were already removed from the list
+      if (controller.signal.aborted) return;
+      const message = (err as { message?: string })?.message || 'Upload failed';
+      update(attachment.id, { status: 'failed', error: message });
+    } finally {
+      controllers.current.delete(attachment.id);
+    }
+  }, [roomId, userId]);
+
+  const addFiles = useCallback((files: File[]) => {
+    const errors: string[] = [];
+    const accepted: PendingAttachment[] = [];
+    files.forEach(file => {
+      const error = validateAttachment(file, storageSettings);
+      if (error) {
+        errors.push(error);
+        return;
+      }
+      const type = getMediaType(file);
+      accepted.push({
+        id: generateClientId(),
+        file,
+        type,
+        status: 'uploading',
+        progress: 0,
+        previewUrl: type === MediaType.IMAGE ? URL.createObjectURL(file) : undefined,
+      });
+    });
+    setAttachmentError(errors.length ? errors.join('\n') : null);
+    if (!accepted.length) return;
+    setAttachments(prev => [...prev, ...accepted]);
+    accepted.forEach(attachment => { upload(attachment); });
+  }, [storageSettings, upload]);
+
+  const removeAttachment = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+    setAttachments(prev => {
+      const removed = prev.find(a => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter(a => a.id !== id);
+    });
+  }, []);
+
+  // Called after sending; uploads still in flight stay in the composer
+  const clearAttachments = useCallback(() => {
+    setAttachments(prev => {
+      prev.forEach(a => {
+        if (a.status !== 'uploading' && a.previewUrl) URL.revokeObjectURL(a.previewUrl);
+      });
+      return prev.filter(a => a.status === 'uploading');
+    });
+    setAttachmentError(null);
+  }, []);
+
+  return {
+    attachments,
+    storageSettings,
+    isUploading: attachments.some(a => a.status === 'uploading'),
+    attachmentError,
+    addFiles,
+    removeAttachment,
+    clearAttachments,
+  };
+}
+
+export type AttachmentsState = ReturnType<typeof useAttachments>;
@@ -2,20 +2,211 @@ import { useState, useEffect, useRef } from 'react';
 import { useCallback } from 'react';
 import { RoomService } from '../../../services/room';
 import { socketService } from '../../../services/socket';
-import type { Message } from '../../../contexts/authTypes';
-import type { SocketMessage, UserTypingData } from '../../../services/socket';
+import { useConnectionState } from '../../../hooks/useConnectionState';
+import { generateClientId, loadOutbox, putOutboxEntry, removeOutboxEntry, setOutboxStatus } from '../utils/outbox';
+import type { OutboxEntry } from '../utils/outbox';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Media, Message, MessageMention, MessageReactions } from '../../../contexts/authTypes';
+import type { ReadReceipt } from '../../../services/room';
+import type {
+  SocketMessage,
+  UserTypingData,
+  UserJoinedData,
+  UserLeftData,
+  MessageEditedData,
+  MessageDeletedData,
+  MessageReactionData,
+  ReadReceiptData,
+  MessagePinData,
+  RoomUpdatedData,
+  ConnectionState,
+} from '../../../services/socket';
+
+/**
+ * Convert a socket payload into the Message shape used by the UI
+ */
+const toMessage = (data: SocketMessage): Message => {
+  const userObj = data.user as Partial<{ id: string | number; username?: string; email?: string; firstName?: string; lastName?: string }>;
+  return {
+    id: data.id,
+    room_id: data.room_id,
+    user_id: data.user_id,
+    content: data.content,
+    sent_at: data.sent_at,
+    parentId: data.parent_id,
+    clientId: data.client_id,
+    mediaId: data.media_id ?? data.media?.id,
+    media: data.media,
+    mentions: data.mentions?.map(m => ({ userId: String(m.user_id), username: m.username })),
+    type: data.type,
+    pinnedAt: data.pinned_at,
+    pinnedBy: data.pinned_by,
+    user: {
+      id: String(userObj.id),
+      username: userObj.username ?? userObj.email ?? 'Unknown User',
+      firstName: userObj.firstName ?? '',
+      lastName: userObj.lastName ?? '',
+    },
+  };
+};
+
+/**
+ * Build the optimistic message shown for an outbox entry
+ */
+const outboxToMessage = (entry: OutboxEntry): Message => ({
+  id: entry.clientId,
+  clientId: entry.clientId,
+  status: entry.status,
+  room_id: entry.roomId,
+  user_id: entry.userId,
+  content: entry.content,
+  sent_at: entry.createdAt,
+  parentId: entry.parentId,
+  mediaId: entry.media?.id,
+  media: entry.media,
+  mentions: entry.mentions,
+  type: entry.type,
+  user: { id: entry.userId, username: entry.username },
+});
+
+/**
+ * Whether a message only exists locally and hasn't been stored by the server yet
+ */
+const isUnconfirmed = (msg: Message): boolean => msg.status === 'pending' || msg.status === 'failed';
+
+/**
+ * Whether a message is stored on the server, as opposed to optimistic or system lines
+ */
+const isStored = (msg: Message): boolean => !isUnconfirmed(msg) && msg.type !== MessageType.SYSTEM;
+
+/**
+ * Build the local timeline line announcing that a member joined or left
+ */
+const systemMessage = (roomId: string, data: UserJoinedData | UserLeftData, fallback: string): Message => {
+  const sentAt = new Date().toISOString();
+  return {
+    id: `system_${data.user_id}_${sentAt}`,
+    type: MessageType.SYSTEM,
+    room_id: roomId,
+    user_id: String(data.user_id),
+    content: data.message || fallback,
+    sent_at: sentAt,
+    user: { id: String(data.user_id), username: data.username },
+  };
+};
+
+/**
+ * Add or remove a single user's reaction, dropping emojis nobody reacts with anymore
+ */
+const applyReaction = (
+  reactions: MessageReactions | undefined,
+  emoji: string,
+  userId: string,
+  add: boolean,
+): MessageReactions => {
+  const next: MessageReactions = { ...(reactions || {}) };
+  const users = (next[emoji] || []).filter(id => id !== userId);
+  if (add) {
+    users.push(userId);
+  }
+  if (users.length) {
+    next[emoji] = users;
+  } else {
+    delete next[emoji];
+  }
+  return next;
+};
+
+/**
+ * Optional parts of an outgoing message
+ */
+export interface SendMessageOptions {
+  /** Thread the message replies to */
+  parentId?: string;
+  /** Already uploaded attachment */
+  media?: Media;
+  mentions?: MessageMention[];
+  /** ANNOUNCEMENT is only accepted from the room creator, teachers and admins; ASSISTANT only with aiQueryId */
+  type?: MessageType;
+  /** Why the content filter queued the message for review */
+  flagReason?: string;
+  /** The AI query an ASSISTANT message answers; the server only accepts the answer stored for it */
+  aiQueryId?: string;
+}
+
+/** Number of messages requested per history page */
+const PAGE_SIZE = 50;
+
+/** Messages loaded on each side of a message jumped to outside the loaded history */
+const WINDOW_CONTEXT = 25;
+
+/** How often the latest page is polled while the socket is down */
+const FALLBACK_POLL_INTERVAL = 5000;
+
+/**
+ * Merge two message lists, sorting oldest-first
+ * Incoming copies replace existing ones so edits, deletes, reactions and pins apply; the local
+ * clientId and delivery status of our own messages are kept.
+ */
+const mergeMessages = (existing: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map<string, Message>();
+  existing.forEach(m => byId.set(m.id, m));
+  incoming.forEach(m => {
+    const current = byId.get(m.id);
+    byId.set(m.id, current
+      ? { ...m, clientId: m.clientId ?? current.clientId, status: m.status ?? current.status }
+      : m);
+  });
+  return [...byId.values()].sort((a, b) => new Date(a.sent_at).getTime() - new Date(b.sent_at).getTime());
+};
+
+export interface ChatRoomOptions {
+  /** Called once a message of ours has been stored, whether on the first attempt, a retry or an outbox flush */
+  onDelivered?: (message: Message) => void;
+}
 
 export function useChatRoom(
   roomId: string | undefined,
   userId: string | undefined,
-  // username?: string
+  username?: string,
+  options: ChatRoomOptions = {}
 ): {
   messages: Message[];
   isLoading: boolean;
+  /** Why the initial load failed */
   error: string | null;
+  /** Why the latest send, edit, reaction, pin or page load failed; shown alongside the timeline */
+  actionError: string | null;
+  dismissActionError: () => void;
   roomName: string;
+  roomCreatorId: string | null;
+  /** Members can ask the AI assistant in this room */
+  assistantEnabled: boolean;
+  pinnedMessages: Message[];
+  pinMessage: (messageId: string) => Promise<void>;
+  unpinMessage: (messageId: string) => Promise<void>;
   typingUsers: { userId: string; username: string }[];
-  sendMessage: (content: string) => Promise<void>;
+  connectionState: ConnectionState;
+  isFallback: boolean;
+  reconnect: () => void;
+  readReceipts: ReadReceipt[];
+  unreadAfterId: string | null;
+  markRead: (message: Message) => void;
+  hasMore: boolean;
+  isLoadingOlder: boolean;
+  loadOlder: () => Promise<void>;
+  hasNewer: boolean;
+  isLoadingNewer: boolean;
+  loadNewer: () => Promise<void>;
+  jumpToLatest: () => Promise<void>;
+  revealMessage: (messageId: string) => Promise<boolean>;
+  sendMessage: (content: string, options?: SendMessageOptions) => Promise<boolean>;
+  retryMessage: (clientId: string) => Promise<boolean>;
+  discardMessage: (clientId: string) => void;
+  /** flagReason queues the edited message for review */
+  editMessage: (messageId: string, content: string, flagReason?: string) => Promise<void>;
+  deleteMessage: (messageId: string) => Promise<void>;
+  toggleReaction: (messageId: string, emoji: string) => Promise<void>;
   sendTyping: (isTyping: boolean) => void;
   joinRoom: () => void;
   leaveRoom: () => void;
@@ -23,10 +214,76 @@ export function useChatRoom(
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
   const [roomName, setRoomName] = useState<string>('');
+  const [roomCreatorId, setRoomCreatorId] = useState<string | null>(null);
+  const [assistantEnabled, setAssistantEnabled] = useState<boolean>(false);
+  const [pinnedMessages, setPinnedMessages] = useState<Message[]>([]);
   const [typingUsers, setTypingUsers] = useState<{ userId: string; username: string }[]>([]);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState<boolean>(false);
+  // Set while showing a window of older history that doesn't reach the latest message;
+  // live messages are held back until the user scrolls or jumps back down
+  const [hasNewer, setHasNewer] = useState<boolean>(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState<boolean>(false);
+  const hasNewerRef = useRef<boolean>(false);
+  const [readReceipts, setReadReceipts] = useState<ReadReceipt[]>([]);
+  // Where this user had read up to when entering the room; fixed for the visit
+  const [unreadAfterId, setUnreadAfterId] = useState<string | null>(null);
+  const readReceiptsRef = useRef<ReadReceipt[]>([]);
+  const connectionState = useConnectionState();
+  // Without a live socket, messages are polled and sent over REST until it recovers
+  const isFallback = connectionState === 'reconnecting' || connectionState === 'offline';
+  const isFallbackRef = useRef<boolean>(isFallback);
+  // Client ids of outbox entries whose send has not settled yet
+  const inFlight = useRef<Set<string>>(new Set());
+  const optionsRef = useRef<ChatRoomOptions>(options);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  useEffect(() => {
+    isFallbackRef.current = isFallback;
+  }, [isFallback]);
+
+  useEffect(() => {
+    readReceiptsRef.current = readReceipts;
+  }, [readReceipts]);
+
+  useEffect(() => {
+    hasNewerRef.current = hasNewer;
+  }, [hasNewer]);
   const typingTimeouts = useRef<{ [userId: string]: ReturnType<typeof setTimeout> }>({});
   const isMounted = useRef<boolean>(true);
+  // Latest messages for callbacks that must stay referentially stable
+  const messagesRef = useRef<Message[]>([]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  /**
+   * Apply a pin or unpin to the timeline and the pinned strip
+   * Pins of messages outside the loaded history are picked up by refetching the list.
+   */
+  const applyPin = useCallback((messageId: string, pinnedAt?: string, pinnedBy?: string) => {
+    setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, pinnedAt, pinnedBy } : m)));
+    const loaded = messagesRef.current.find(m => m.id === messageId);
+    if (pinnedAt && !loaded) {
+      if (!roomId) return;
+      RoomService.getPinnedMessages(roomId)
+        .then(pinned => {
+          if (isMounted.current) setPinnedMessages(pinned || []);
+        })
+        .catch(err => console.error('Failed to fetch pinned messages:', err));
+      return;
+    }
+    setPinnedMessages(prev => {
+      const rest = prev.filter(m => m.id !== messageId);
+      return pinnedAt && loaded ? [{ ...loaded, pinnedAt, pinnedBy }, ...rest] : rest;
+    });
+  }, [roomId]);
 
   const joinRoom = useCallback(() => {
     if (roomId && userId) {
@@ -40,6 +297,99 @@ export function useChatRoom(
     }
   }, [roomId, userId]);
 
+  /**
+   * Try to deliver one outbox entry over the socket, or over REST in fallback mode
+   * While connecting the entry stays pending and is flushed once connected;
+   * a rejected or unacknowledged send marks it as failed so the user can retry or discard it
+   */
+  const deliver = useCallback(async (entry: OutboxEntry): Promise<boolean> => {
+    const setStatus = (status: Message['status']) => setMessages(prev => prev.map(m => (
+      m.clientId === entry.clientId && isUnconfirmed(m) ? { ...m, status } : m
+    )));
+
+    // A reconnect or fallback switch mid-send must not post the message a second time
+    if (inFlight.current.has(entry.clientId)) return false;
+    const useSocket = socketService.isConnected();
+    if (!useSocket && !isFallbackRef.current) {
+      setStatus('pending');
+      return false;
+    }
+    inFlight.current.add(entry.clientId);
+    try {
+      let saved: Message | undefined;
+      if (useSocket) {
+        const ack = await socketService.sendMessage({
+          room_id: entry.roomId,
+          user_id: entry.userId,
+          content: entry.content,
+          parent_id: entry.parentId,
+          client_id: entry.clientId,
+          media_id: entry.media?.id,
+          mentions: entry.mentions?.map(m => ({ user_id: m.userId, username: m.username })),
+          type: entry.type,
+          flag_reason: entry.flagReason,
+          ai_query_id: entry.aiQueryId,
+        });
+        saved = ack ? toMessage(ack) : undefined;
+      } else {
+        saved = await RoomService.sendMessage(entry.roomId, {
+          content: entry.content,
+          userId: entry.userId,
+          parentId: entry.parentId,
+          clientId: entry.clientId,
+          mediaId: entry.media?.id,
+          mentions: entry.mentions,
+          type: entry.type,
+          flagReason: entry.flagReason,
+          aiQueryId: entry.aiQueryId,
+        });
+      }
+      removeOutboxEntry(entry.roomId, entry.userId, entry.clientId);
+      if (isMounted.current) {
+        setMessages(prev => {
+          // A poll may already have picked up the stored copy
+          if (saved && prev.some(m => m.id === saved.id)) {
+            return prev.filter(m => m.clientId !== entry.clientId || !isUnconfirmed(m));
+          }
+          return prev.map(m => (
+            m.clientId === entry.clientId
+              ? (saved ? { ...saved, clientId: entry.clientId, status: 'sent' } : { ...m, status: 'sent' })
+              : m
+          ));
+        });
+        optionsRef.current.onDelivered?.(saved ?? outboxToMessage(entry));
+      }
+      return true;
+    } catch (err) {
+      console.error('Failed to send message:', err);
+      setOutboxStatus(entry.roomId, entry.userId, entry.clientId, 'failed');
+      if (isMounted.current) setStatus('failed');
+      return false;
+    } finally {
+      inFlight.current.delete(entry.clientId);
+    }
+  }, []);
+
+  const flushOutbox = useCallback(() => {
+    if (!roomId || !userId) return;
+    loadOutbox(roomId, userId)
+      .filter(entry => entry.status === 'pending' && !inFlight.current.has(entry.clientId))
+      .forEach(entry => { deliver(entry); });
+  }, [roomId, userId, deliver]);
+
+  // Settings changed while the socket was down are picked up with the next catch-up or poll
+  const refreshRoomDetails = useCallback(async () => {
+    if (!roomId) return;
+    try {
+      const roomDetails = await RoomService.getRoom(roomId);
+      if (!isMounted.current) return;
+      setRoomName(roomDetails.name || 'Unknown Room');
+      setAssistantEnabled(!!roomDetails.assistantEnabled);
+    } catch (err) {
+      console.error('Failed to refresh room details:', err);
+    }
+  }, [roomId]);
+
   useEffect(() => {
     isMounted.current = true;
 
@@ -51,14 +401,24 @@ export function useChatRoom(
       }
       setIsLoading(true);
       setError(null);
+      setActionError(null);
+      // Unsent messages from a previous visit are shown right away and flushed once connected
+      setMessages(userId ? loadOutbox(roomId, userId).map(outboxToMessage) : []);
+      setHasMore(false);
+      setHasNewer(false);
+      hasNewerRef.current = false;
       try {
         const [roomDetails, msgs] = await Promise.all([
           RoomService.getRoom(roomId),
-          RoomService.getMessages(roomId),
+          RoomService.getMessages(roomId, 0, PAGE_SIZE),
         ]);
         if (isMounted.current) {
           setRoomName(roomDetails.name || 'Unknown Room');
-          setMessages(msgs || []);
+          setRoomCreatorId(roomDetails.creatorId ? String(roomDetails.creatorId) : null);
+          setAssistantEnabled(!!roomDetails.assistantEnabled);
+          // Live messages may have arrived while the first page was loading
+          setMessages(prev => mergeMessages(prev, msgs || []));
+          setHasMore((msgs || []).length === PAGE_SIZE);
         }
       } catch (err) {
         if (isMounted.current) {
@@ -71,42 +431,109 @@ export function useChatRoom(
       }
     };
 
+    // Receipts are an enhancement; a failure here shouldn't make the room unusable
+    const fetchReadReceipts = async () => {
+      if (!roomId) return;
+      setReadReceipts([]);
+      setUnreadAfterId(null);
+      try {
+        const receipts = await RoomService.getReadReceipts(roomId);
+        if (isMounted.current) {
+          setReadReceipts(receipts || []);
+          const own = (receipts || []).find(r => String(r.userId) === String(userId));
+          setUnreadAfterId(own?.messageId ?? null);
+        }
+      } catch (err) {
+        console.error('Failed to fetch read receipts:', err);
+      }
+    };
+
+    // Pins are shown in a strip above the timeline and may be far older than the loaded history
+    const fetchPinnedMessages = async () => {
+      if (!roomId) return;
+      setPinnedMessages([]);
+      try {
+        const pinned = await RoomService.getPinnedMessages(roomId);
+        if (isMounted.current) setPinnedMessages(pinned || []);
+      } catch (err) {
+        console.error('Failed to fetch pinned messages:', err);
+      }
+    };
+
     fetchRoomAndMessages();
+    fetchReadReceipts();
+    fetchPinnedMessages();
 
     if (!roomId || !userId) {
       setError('Both room ID and user ID are required');
       return;
     }
 
-    socketService.connect().then(() => {
-      if (isMounted.current && roomId && userId) {
-        joinRoom();
-      }
-    }).catch(() => {
-      if (isMounted.current) {
-        setError('Failed to connect to socket');
-      }
-    });
+    const release = socketService.acquire();
+    // Joined rooms are remembered by the service and re-joined after every reconnect
+    joinRoom();
 
     const handleNewMessage = (data: SocketMessage) => {
       if (!isMounted.current || data.room_id !== roomId) return;
-        const userObj = data.user as Partial<{ id: string | number; username?: string; email?: string; firstName?: string; lastName?: string }>;
-        const msg: Message = {
-          id: data.id,
-          room_id: data.room_id,
-          user_id: data.user_id,
-          content: data.content,
-          sent_at: data.sent_at,
-          user: {
-            id: String(userObj.id),
-            username: userObj.username ?? userObj.email ?? 'Unknown User',
-            firstName: userObj.firstName ?? '',
-            lastName: userObj.lastName ?? '',
-          },
-        };
-      setMessages(prev => [...prev, msg]);
+      const msg = toMessage(data);
+      setMessages(prev => {
+        if (prev.some(m => m.id === msg.id)) return prev;
+        // Appending to an older window would leave a gap; it's fetched with the newer pages
+        if (hasNewerRef.current && !(msg.clientId && prev.some(m => m.clientId === msg.clientId))) return prev;
+        // Our own broadcast can beat the acknowledgement; swap it in for the optimistic copy
+        if (msg.clientId && prev.some(m => m.clientId === msg.clientId)) {
+          return prev.map(m => (m.clientId === msg.clientId ? { ...msg, status: 'sent' } : m));
+        }
+        const next = [...prev, msg];
+        if (!msg.parentId) return next;
+        return next.map(m => (
+          m.id === msg.parentId ? { ...m, replyCount: (m.replyCount || 0) + 1 } : m
+        ));
+      });
+    };
+
+    const handleMessageEdited = (data: MessageEditedData) => {
+      if (!isMounted.current || data.room_id !== roomId) return;
+      setMessages(prev => prev.map(m => (
+        m.id === data.id ? { ...m, content: data.content, editedAt: data.edited_at } : m
+      )));
     };
 
+    const handleMessageDeleted = (data: MessageDeletedData) => {
+      if (!isMounted.current || data.room_id !== roomId) return;
+      setMessages(prev => prev.map(m => (
+        m.id === data.id ? { ...m, content: '', deletedAt: data.deleted_at } : m
+      )));
+      setPinnedMessages(prev => prev.filter(m => m.id !== data.id));
+    };
+
+    const handleReadReceipt = (data: ReadReceiptData) => {
+      if (!isMounted.current || data.room_id !== roomId) return;
+      const receipt: ReadReceipt = {
+        userId: String(data.user_id),
+        username: data.username,
+        messageId: data.message_id,
+        readAt: data.read_at,
+      };
+      setReadReceipts(prev => [...prev.filter(r => String(r.userId) !== receipt.userId), receipt]);
+    };
+
+    const handlePinChange = (data: MessagePinData) => {
+      if (!isMounted.current || data.room_id !== roomId) return;
+      applyPin(data.message_id, data.pinned_at ?? undefined, data.pinned_by ?? undefined);
+    };
+
+    const handleReaction = (add: boolean) => (data: MessageReactionData) => {
+      if (!isMounted.current || data.room_id !== roomId) return;
+      setMessages(prev => prev.map(m => (
+        m.id === data.message_id
+          ? { ...m, reactions: applyReaction(m.reactions, data.emoji, String(data.user_id), add) }
+          : m
+      )));
+    };
+    const handleReactionAdded = handleReaction(true);
+    const handleReactionRemoved = handleReaction(false);
+
     // Extend UserTypingData to include room_id for proper typing
     type UserTypingDataWithRoom = UserTypingData & { room_id?: string };
 
@@ -134,51 +561,391 @@ export function useChatRoom(
       }
     };
 
-    socketService.onNewMessage(handleNewMessage);
-    socketService.onUserTyping(handleUserTyping);
+    // Join/leave events aren't scoped to a room in the payload; the server only sends them
+    // to members of the rooms this socket joined
+    const handleUserJoined = (data: UserJoinedData) => {
+      if (!isMounted.current || String(data.user_id) === String(userId)) return;
+      setMessages(prev => [...prev, systemMessage(roomId, data, `${data.username} joined the room`)]);
+    };
+
+    const handleUserLeft = (data: UserLeftData) => {
+      if (!isMounted.current || String(data.user_id) === String(userId)) return;
+      setMessages(prev => [...prev, systemMessage(roomId, data, `${data.username} left the room`)]);
+    };
+
+    const handleRoomUpdated = (data: RoomUpdatedData) => {
+      if (!isMounted.current || data.room_id !== roomId) return;
+      if (data.name !== undefined) setRoomName(data.name || 'Unknown Room');
+      if (data.assistant_enabled !== undefined) setAssistantEnabled(data.assistant_enabled);
+    };
+
+
+    // Catch up on whatever was missed while disconnected; the first connect is covered by the initial fetch
+    let hasConnected = socketService.isConnected();
+    const handleConnect = () => {
+      if (!isMounted.current) return;
+      flushOutbox();
+      if (hasConnected && !hasNewerRef.current) {
+        RoomService.getMessages(roomId, 0, PAGE_SIZE)
+          .then(latest => {
+            if (isMounted.current) setMessages(prev => mergeMessages(prev, latest || []));
+          })
+          .catch(err => console.error('Failed to catch up after reconnect:', err));
+        refreshRoomDetails();
+      }
+      hasConnected = true;
+    };
+
+    const unsubscribers = [
+      socketService.onConnect(handleConnect),
+      socketService.onNewMessage(handleNewMessage),
+      socketService.onUserTyping(handleUserTyping),
+      socketService.onMessageEdited(handleMessageEdited),
+      socketService.onMessageDeleted(handleMessageDeleted),
+      socketService.onReactionAdded(handleReactionAdded),
+      socketService.onReactionRemoved(handleReactionRemoved),
+      socketService.onReadReceipt(handleReadReceipt),
+      socketService.onMessagePinned(handlePinChange),
+      socketService.onMessageUnpinned(handlePinChange),
+      socketService.onUserJoined(handleUserJoined),
+      socketService.onUserLeft(handleUserLeft),
+      socketService.onRoomUpdated(handleRoomUpdated),
+    ];
+    // The shared connection may already be up, in which case no connect event follows
+    if (socketService.isConnected()) {
+      flushOutbox();
+    }
 
     return () => {
       isMounted.current = false;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
       leaveRoom();
+      release();
       Object.values(typingTimeouts.current).forEach(clearTimeout);
       typingTimeouts.current = {};
     };
-  }, [roomId, userId, joinRoom, leaveRoom]);
+  }, [roomId, userId, joinRoom, leaveRoom, flushOutbox, applyPin, refreshRoomDetails]);
+
+  // Fallback mode: send anything still queued over REST and poll for new messages and room settings
+  useEffect(() => {
+    if (!isFallback || !roomId) return;
+    flushOutbox();
+    const timer = setInterval(async () => {
+      if (hasNewerRef.current) return;
+      try {
+        const latest = await RoomService.getMessages(roomId, 0, PAGE_SIZE);
+        if (isMounted.current) {
+          setMessages(prev => mergeMessages(prev, latest || []));
+        }
+        refreshRoomDetails();
+      } catch (err) {
+        console.error('Failed to poll messages:', err);
+      }
+    }, FALLBACK_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isFallback, roomId, flushOutbox, refreshRoomDetails]);
+
+  // Older pages are fetched by offset; messages that arrived live since the first page shift
+  // the server-side window forward, so overlaps are expected and de-duplicated by id.
+  // A detached window has no meaningful offset, so it pages relative to its oldest message.
+  const loadOlder = useCallback(async () => {
+    if (!roomId || !hasMore || isLoadingOlder) return;
+    setIsLoadingOlder(true);
+    try {
+      const stored = messagesRef.current.filter(isStored);
+      let page: Message[];
+      let more: boolean;
+      if (hasNewerRef.current && stored.length) {
+        const around = await RoomService.getMessageWindow(roomId, stored[0].id, PAGE_SIZE, 0);
+        page = around.messages || [];
+        more = around.hasOlder;
+      } else {
+        page = (await RoomService.getMessages(roomId, stored.length, PAGE_SIZE)) || [];
+        more = page.length === PAGE_SIZE;
+      }
+      if (isMounted.current) {
+        setMessages(prev => mergeMessages(prev, page));
+        setHasMore(more);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setActionError(err instanceof Error ? err.message : 'Failed to load older messages');
+      }
+    } finally {
+      if (isMounted.current) {
+        setIsLoadingOlder(false);
+      }
+    }
+  }, [roomId, hasMore, isLoadingOlder]);
+
+  /**
+   * Continue a detached window towards the present; once it reaches the latest message
+   * the timeline is live again
+   */
+  const loadNewer = useCallback(async () => {
+    if (!roomId || !hasNewerRef.current || isLoadingNewer) return;
+    const stored = messagesRef.current.filter(isStored);
+    if (!stored.length) return;
+    setIsLoadingNewer(true);
+    try {
+      const around = await RoomService.getMessageWindow(roomId, stored[stored.length - 1].id, 0, PAGE_SIZE);
+      if (isMounted.current) {
+        setMessages(prev => mergeMessages(prev, around.messages || []));
+        hasNewerRef.current = around.hasNewer;
+        setHasNewer(around.hasNewer);
+      }
+    } catch (err) {
+      if (isMounted.current) {
+        setActionError(err instanceof Error ? err.message : 'Failed to load newer messages');
+      }
+    } finally {
+      if (isMounted.current) {
+        setIsLoadingNewer(false);
+      }
+    }
+  }, [roomId, isLoadingNewer]);
+
+  /**
+   * Leave a detached window and reload the latest page
+   */
+  const jumpToLatest = useCallback(async () => {
+    if (!roomId || !hasNewerRef.current) return;
+    try {
+      const latest = (await RoomService.getMessages(roomId, 0, PAGE_SIZE)) || [];
+      if (isMounted.current) {
+        hasNewerRef.current = false;
+        setHasNewer(false);
+        setMessages(prev => mergeMessages(prev.filter(isUnconfirmed), latest));
+        setHasMore(latest.length === PAGE_SIZE);
+      }
+    } catch (err) {
+      console.error('Failed to load latest messages:', err);
+    }
+  }, [roomId]);
+
+  /**
+   * Make sure a message is loaded so the timeline can scroll to it; messages outside the
+   * loaded history replace the timeline with the window of history around them.
+   * Resolves to false if the message couldn't be found.
+   */
+  const revealMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    if (!roomId) return false;
+    if (messagesRef.current.some(m => m.id === messageId)) return true;
+    try {
+      const around = await RoomService.getMessageWindow(roomId, messageId, WINDOW_CONTEXT, WINDOW_CONTEXT);
+      if (!isMounted.current || !(around.messages || []).some(m => m.id === messageId)) return false;
+      hasNewerRef.current = around.hasNewer;
+      setHasNewer(around.hasNewer);
+      setMessages(prev => mergeMessages(prev.filter(isUnconfirmed), around.messages));
+      setHasMore(around.hasOlder);
+      return true;
+    } catch (err) {
+      console.error('Failed to load message history:', err);
+    }
+    return false;
+  }, [roomId]);
+
+  const sendMessage = useCallback(async (
+    content: string,
+    { parentId, media, mentions, type, flagReason, aiQueryId }: SendMessageOptions = {}
+  ): Promise<boolean> => {
+    if ((!content.trim() && !media) || !roomId || !userId) {
+      setActionError('Invalid message or missing room/user ID');
+      return false;
+    }
+    const entry: OutboxEntry = {
+      clientId: generateClientId(),
+      roomId,
+      userId: String(userId),
+      username: username || 'You',
+      content,
+      parentId,
+      media,
+      mentions: mentions?.length ? mentions : undefined,
+      type,
+      flagReason,
+      aiQueryId,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+    };
+    // Sending from an older window brings the timeline back to the present first
+    if (hasNewerRef.current) await jumpToLatest();
+    putOutboxEntry(entry);
+    setMessages(prev => [...prev, outboxToMessage(entry)]);
+    return deliver(entry);
+  }, [roomId, userId, username, deliver, jumpToLatest]);
 
-  const sendMessage = async (content: string) => {
+  const retryMessage = useCallback(async (clientId: string): Promise<boolean> => {
+    if (!roomId || !userId) return false;
+    const entry = loadOutbox(roomId, userId).find(e => e.clientId === clientId);
+    if (!entry) return false;
+    const pendingEntry: OutboxEntry = { ...entry, status: 'pending' };
+    putOutboxEntry(pendingEntry);
+    setMessages(prev => prev.map(m => (m.clientId === clientId ? { ...m, status: 'pending' } : m)));
+    return deliver(pendingEntry);
+  }, [roomId, userId, deliver]);
+
+  const discardMessage = useCallback((clientId: string) => {
+    if (!roomId || !userId) return;
+    removeOutboxEntry(roomId, userId, clientId);
+    setMessages(prev => prev.filter(m => !(m.clientId === clientId && isUnconfirmed(m))));
+  }, [roomId, userId]);
+
+  // Edits and deletes go through REST; the server broadcasts the change to the
+  // other participants, and we apply the returned record locally right away
+  const editMessage = useCallback(async (messageId: string, content: string, flagReason?: string) => {
     if (!content.trim() || !roomId || !userId) {
-      setError('Invalid message or missing room/user ID');
+      setActionError('Invalid message or missing room/user ID');
       return;
     }
     try {
-      await socketService.sendMessage({
-        room_id: roomId,
-        user_id: String(userId),
+      const updated = await RoomService.editMessage(roomId, messageId, {
         content,
+        userId: String(userId),
+        ...(flagReason ? { flagReason } : {}),
       });
+      setMessages(prev => prev.map(m => (
+        m.id === messageId
+          ? { ...m, content: updated.content ?? content, editedAt: updated.editedAt ?? new Date().toISOString() }
+          : m
+      )));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send message');
+      setActionError(err instanceof Error ? err.message : 'Failed to edit message');
     }
-  };
+  }, [roomId, userId]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    if (!roomId) return;
+    try {
+      const deleted = await RoomService.deleteMessage(roomId, messageId);
+      setMessages(prev => prev.map(m => (
+        m.id === messageId
+          ? { ...m, content: '', deletedAt: deleted?.deletedAt ?? new Date().toISOString() }
+          : m
+      )));
+      setPinnedMessages(prev => prev.filter(m => m.id !== messageId));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete message');
+    }
+  }, [roomId]);
+
+  // Pinning is permission-checked by the server; the change reaches other members over the socket
+  const pinMessage = useCallback(async (messageId: string) => {
+    if (!roomId || !userId) return;
+    try {
+      const updated = await RoomService.pinMessage(roomId, messageId, String(userId));
+      applyPin(messageId, updated?.pinnedAt ?? new Date().toISOString(), updated?.pinnedBy ?? String(userId));
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to pin message');
+    }
+  }, [roomId, userId, applyPin]);
 
-  const sendTyping = (isTyping: boolean) => {
+  const unpinMessage = useCallback(async (messageId: string) => {
+    if (!roomId || !userId) return;
+    try {
+      await RoomService.unpinMessage(roomId, messageId, String(userId));
+      applyPin(messageId);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to unpin message');
+    }
+  }, [roomId, userId, applyPin]);
+
+  // Reactions are applied optimistically and rolled back if the request fails
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!roomId || !userId) return;
+    const target = messagesRef.current.find(m => m.id === messageId);
+    if (!target) return;
+    const hasReacted = (target.reactions?.[emoji] || []).includes(String(userId));
+    const updateLocal = (add: boolean) => setMessages(prev => prev.map(m => (
+      m.id === messageId ? { ...m, reactions: applyReaction(m.reactions, emoji, String(userId), add) } : m
+    )));
+
+    updateLocal(!hasReacted);
+    try {
+      const reactionData = { emoji, userId: String(userId) };
+      if (hasReacted) {
+        await RoomService.removeReaction(roomId, messageId, reactionData);
+      } else {
+        await RoomService.addReaction(roomId, messageId, reactionData);
+      }
+    } catch (err) {
+      updateLocal(hasReacted);
+      setActionError(err instanceof Error ? err.message : 'Failed to update reaction');
+    }
+  }, [roomId, userId]);
+
+  // Only moves forward: emits mark-read when the message is newer than our current position
+  const markRead = useCallback((message: Message) => {
+    if (!roomId || !userId || !isStored(message)) return;
+    // Browsing an older window never moves the read position back
+    if (hasNewerRef.current) return;
+    const own = readReceiptsRef.current.find(r => String(r.userId) === String(userId));
+    if (own) {
+      if (own.messageId === message.id) return;
+      const current = messagesRef.current.find(m => m.id === own.messageId);
+      if (current && new Date(current.sent_at).getTime() >= new Date(message.sent_at).getTime()) return;
+    }
+    const receipt: ReadReceipt = {
+      userId: String(userId),
+      username: username || 'You',
+      messageId: message.id,
+      readAt: new Date().toISOString(),
+    };
+    readReceiptsRef.current = [...readReceiptsRef.current.filter(r => String(r.userId) !== receipt.userId), receipt];
+    setReadReceipts(readReceiptsRef.current);
+    socketService.markRead({ room_id: roomId, user_id: String(userId), message_id: message.id });
+  }, [roomId, userId, username]);
+
+  const reconnect = useCallback(() => socketService.reconnect(), []);
+
+  const sendTyping = useCallback((isTyping: boolean) => {
     if (!roomId || !userId) return;
     socketService.sendTyping({
       room_id: roomId,
       user_id: String(userId),
       is_typing: isTyping,
     });
-  };
+  }, [roomId, userId]);
+
+  const dismissActionError = useCallback(() => setActionError(null), []);
 
   return {
     messages,
     isLoading,
     error,
+    actionError,
+    dismissActionError,
     roomName,
+    roomCreatorId,
+    assistantEnabled,
+    pinnedMessages,
+    pinMessage,
+    unpinMessage,
     typingUsers,
+    connectionState,
+    isFallback,
+    reconnect,
+    readReceipts,
+    unreadAfterId,
+    markRead,
+    hasMore,
+    isLoadingOlder,
+    loadOlder,
+    hasNewer,
+    isLoadingNewer,
+    loadNewer,
+    jumpToLatest,
+    revealMessage,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     sendTyping,
     joinRoom,
     leaveRoom,
   };
-}
\ No newline at end of file
+}
+
+export type ChatRoomState = ReturnType<typeof useChatRoom>;
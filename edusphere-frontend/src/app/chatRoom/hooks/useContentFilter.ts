@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SettingsService, DEFAULT_MODERATION_SETTINGS } from '../../../services/settings';
+import type { ModerationSettings } from '../../../services/settings';
+import { checkMessage, countLinks } from '../utils/contentFilter';
+import type { FilterResult, SentRecord } from '../utils/contentFilter';
+
+// Kept at module level so the per-user limits carry over when switching rooms
+let sentHistory: SentRecord[] = [];
+
+/**
+ * The admin content filter, applied to messages before they leave the composer
+ */
+export function useContentFilter(): {
+  settings: ModerationSettings;
+  check: (content: string) => FilterResult;
+  checkEdit: (content: string) => FilterResult;
+  recordSent: (content: string) => void;
+} {
+  const [settings, setSettings] = useState<ModerationSettings>(DEFAULT_MODERATION_SETTINGS);
+
+  // The server applies the same rules; the defaults only cover the client-side check until loaded
+  useEffect(() => {
+    let cancelled = false;
+    SettingsService.getModerationSettings()
+      .then(loaded => {
+        if (!cancelled) setSettings(loaded);
+      })
+      .catch(err => console.error('Failed to load moderation settings:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const check = useCallback((content: string) => checkMessage(content, sentHistory, settings), [settings]);
+
+  // Edits don't count towards the rate, duplicate and link limits; only the content rules apply
+  const checkEdit = useCallback((content: string) => checkMessage(content, [], settings), [settings]);
+
+  const recordSent = useCallback((content: string) => {
+    const now = Date.now();
+    const longestWindow = Math.max(settings.rateLimitWindow, settings.duplicateWindow, settings.linkFloodWindow) * 1000;
+    sentHistory = [
+      ...sentHistory.filter(record => now - record.sentAt < longestWindow),
+      { content, links: countLinks(content), sentAt: now },
+    ];
+  }, [settings]);
+
+  return { settings, check, checkEdit, recordSent };
+}
+
+export default useContentFilter;
@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { LinkPreviewService } from '../../../services/linkPreview';
+import type { LinkPreview } from '../../../services/linkPreview';
+
+/**
+ * Preview for a URL; null while loading or when the link can't be unfurled
+ */
+export function useLinkPreview(url: string): LinkPreview | null {
+  const [preview, setPreview] = useState<{ url: string; value: LinkPreview | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    LinkPreviewService.getPreview(url).then(value => {
+      if (!cancelled) setPreview({ url, value });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return preview?.url === url ? preview.value : null;
+}
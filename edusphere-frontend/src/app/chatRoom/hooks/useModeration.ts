@@ -0,0 +1,157 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ModerationService, RestrictionType } from '../../../services/moderation';
+import { socketService } from '../../../services/socket';
+import type { RoomRestriction } from '../../../services/moderation';
+import type { UserMutedData, UserUnmutedData, UserRemovedData } from '../../../services/socket';
+
+export interface RoomRemoval {
+  reason?: string;
+  banned: boolean;
+}
+
+/** Longest delay setTimeout accepts; longer ones fire immediately */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const isExpired = (restriction: RoomRestriction, now: number): boolean =>
+  !!restriction.expiresAt && new Date(restriction.expiresAt).getTime() <= now;
+
+/**
+ * Mutes, kicks and bans in a room
+ * Tracks the current user's own mute and removal live so the room can lock the composer or
+ * close; moderators also see every active restriction.
+ */
+export function useModeration(roomId: string | undefined, userId: string | undefined): {
+  restrictions: RoomRestriction[];
+  ownMute: RoomRestriction | null;
+  removal: RoomRemoval | null;
+  muteUser: (targetId: string, minutes?: number, reason?: string) => Promise<void>;
+  unmuteUser: (targetId: string) => Promise<void>;
+  kickUser: (targetId: string, reason?: string) => Promise<void>;
+  banUser: (targetId: string, reason?: string) => Promise<void>;
+} {
+  const [restrictions, setRestrictions] = useState<RoomRestriction[]>([]);
+  const [removal, setRemoval] = useState<RoomRemoval | null>(null);
+  const [expiryCheck, setExpiryCheck] = useState<number>(0);
+
+  const upsert = useCallback((restriction: RoomRestriction) => setRestrictions(prev => [
+    ...prev.filter(r => !(r.userId === restriction.userId && r.type === restriction.type)),
+    restriction,
+  ]), []);
+
+  useEffect(() => {
+    setRestrictions([]);
+    setRemoval(null);
+    if (!roomId || !userId) return;
+    let cancelled = false;
+
+    // Restrictions are enforced by the server; a failure here only hides the explanation
+    ModerationService.getRestrictions(roomId)
+      .then(data => {
+        if (!cancelled) setRestrictions(data || []);
+      })
+      .catch(err => console.error('Failed to fetch room restrictions:', err));
+
+    const handleMuted = (data: UserMutedData) => {
+      if (data.room_id !== roomId) return;
+      setRestrictions(prev => {
+        const previous = prev.find(r => r.userId === String(data.user_id) && r.type === RestrictionType.MUTE);
+        return [
+          ...prev.filter(r => r !== previous),
+          {
+            userId: String(data.user_id),
+            username: previous?.username || '',
+            type: RestrictionType.MUTE,
+            reason: data.reason,
+            moderatorId: String(data.moderator_id),
+            createdAt: new Date().toISOString(),
+            expiresAt: data.muted_until,
+          },
+        ];
+      });
+    };
+
+    const handleUnmuted = (data: UserUnmutedData) => {
+      if (data.room_id !== roomId) return;
+      setRestrictions(prev => prev.filter(r => !(r.userId === String(data.user_id) && r.type === RestrictionType.MUTE)));
+    };
+
+    const handleRemoved = (data: UserRemovedData) => {
+      if (data.room_id !== roomId) return;
+      if (String(data.user_id) === userId) {
+        setRemoval({ reason: data.reason, banned: data.banned });
+        return;
+      }
+      if (data.banned) {
+        upsert({
+          userId: String(data.user_id),
+          username: '',
+          type: RestrictionType.BAN,
+          reason: data.reason,
+          moderatorId: String(data.moderator_id),
+          createdAt: new Date().toISOString(),
+          expiresAt: null,
+        });
+      }
+    };
+
+    const release = socketService.acquire();
+    const unsubscribers = [
+      socketService.onUserMuted(handleMuted),
+      socketService.onUserUnmuted(handleUnmuted),
+      socketService.onUserRemoved(handleRemoved),
+    ];
+    return () => {
+      cancelled = true;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      release();
+    };
+  }, [roomId, userId, upsert]);
+
+  // Drop timed restrictions as they run out
+  useEffect(() => {
+    const expiries = restrictions
+      .filter(r => r.expiresAt)
+      .map(r => new Date(r.expiresAt as string).getTime());
+    if (!expiries.length) return;
+    // Expiries beyond the longest timeout are re-armed when the capped timer fires
+    const delay = Math.max(0, Math.min(...expiries) - Date.now()) + 500;
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setRestrictions(prev => (prev.some(r => isExpired(r, now)) ? prev.filter(r => !isExpired(r, now)) : prev));
+      setExpiryCheck(check => check + 1);
+    }, Math.min(delay, MAX_TIMEOUT));
+    return () => clearTimeout(timer);
+  }, [restrictions, expiryCheck]);
+
+  const ownMute = useMemo(
+    () => restrictions.find(r => r.userId === userId && r.type === RestrictionType.MUTE) ?? null,
+    [restrictions, userId]
+  );
+
+  // Actions throw on failure so the caller can show the server's reason;
+  // other members learn about them over the socket
+  const muteUser = useCallback(async (targetId: string, minutes?: number, reason?: string) => {
+    if (!roomId || !userId) return;
+    upsert(await ModerationService.muteUser(roomId, targetId, { moderatorId: userId, minutes, reason }));
+  }, [roomId, userId, upsert]);
+
+  const unmuteUser = useCallback(async (targetId: string) => {
+    if (!roomId || !userId) return;
+    await ModerationService.unmuteUser(roomId, targetId, { moderatorId: userId });
+    setRestrictions(prev => prev.filter(r => !(r.userId === targetId && r.type === RestrictionType.MUTE)));
+  }, [roomId, userId]);
+
+  const kickUser = useCallback(async (targetId: string, reason?: string) => {
+    if (!roomId || !userId) return;
+    await ModerationService.kickUser(roomId, targetId, { moderatorId: userId, reason });
+  }, [roomId, userId]);
+
+  const banUser = useCallback(async (targetId: string, reason?: string) => {
+    if (!roomId || !userId) return;
+    upsert(await ModerationService.banUser(roomId, targetId, { moderatorId: userId, reason }));
+  }, [roomId, userId, upsert]);
+
+  return { restrictions, ownMute, removal, muteUser, unmuteUser, kickUser, banUser };
+}
+
+export default useModeration;
@@ -0,0 +1,76 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { AIService } from '../../../services/ai';
+import { getResponseText } from '../../aiAssistant/utils/response';
+import { buildAssistantPrompt } from '../utils/assistant';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Message } from '../../../contexts/authTypes';
+import type { SendMessageOptions } from './useChatRoom';
+
+/**
+ * The @assistant bot of a room
+ * Questions go through the AI service and the answer is posted back into the room (or the
+ * question's thread) as an ASSISTANT message that references the query, so the server can
+ * check it is the stored answer.
+ */
+export function useRoomAssistant({
+  roomName,
+  userId,
+  username,
+  messages,
+  sendMessage,
+}: {
+  roomName: string;
+  userId: string | undefined;
+  username: string;
+  /** The loaded timeline; its latest messages give the assistant context */
+  messages: Message[];
+  sendMessage: (content: string, options?: SendMessageOptions) => Promise<boolean>;
+}): {
+  isAnswering: boolean;
+  error: string | null;
+  ask: (question: string, parentId?: string) => Promise<void>;
+  dismissError: () => void;
+} {
+  const [answering, setAnswering] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+  const isMounted = useRef<boolean>(true);
+  const messagesRef = useRef<Message[]>(messages);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+    };
+  }, []);
+
+  const ask = useCallback(async (question: string, parentId?: string) => {
+    if (!userId) return;
+    setError(null);
+    setAnswering(count => count + 1);
+    try {
+      const answered = await AIService.submitQuery({
+        userId,
+        query: buildAssistantPrompt(roomName, username, question, messagesRef.current),
+      });
+      if (!isMounted.current) return;
+      await sendMessage(getResponseText(answered.response), { parentId, type: MessageType.ASSISTANT, aiQueryId: answered.id });
+    } catch (err) {
+      if (isMounted.current) {
+        // Both Errors and API error payloads carry a message
+        setError((err as { message?: string } | null)?.message || 'The assistant could not answer');
+      }
+    } finally {
+      if (isMounted.current) setAnswering(count => count - 1);
+    }
+  }, [roomName, userId, username, sendMessage]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { isAnswering: answering > 0, error, ask, dismissError };
+}
+
+export default useRoomAssistant;
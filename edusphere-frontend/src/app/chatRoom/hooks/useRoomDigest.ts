@@ -0,0 +1,63 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { RoomService } from '../../../services/room';
+import { AIService } from '../../../services/ai';
+import { buildRoomDigestPrompt, parseRoomDigest } from '../utils/roomDigest';
+import type { RoomDigest } from '../utils/roomDigest';
+
+/**
+ * An AI digest of a room's recent messages: summary, key questions and unanswered questions
+ * Only the latest request's result is kept when the window is changed mid-request.
+ */
+export function useRoomDigest(roomId: string | undefined, roomName: string, userId: string | undefined): {
+  digest: RoomDigest | null;
+  messageCount: number;
+  generatedAt: string | null;
+  isLoading: boolean;
+  error: string | null;
+  generate: (limit: number) => Promise<void>;
+} {
+  const [digest, setDigest] = useState<RoomDigest | null>(null);
+  const [messageCount, setMessageCount] = useState<number>(0);
+  const [generatedAt, setGeneratedAt] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef<number>(0);
+
+  // Drop results that arrive after the drawer is closed
+  useEffect(() => () => {
+    requestId.current++;
+  }, []);
+
+  const generate = useCallback(async (limit: number) => {
+    if (!roomId || !userId) return;
+    const current = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const messages = (await RoomService.getMessages(roomId, 0, limit)) || [];
+      if (current !== requestId.current) return;
+      if (!messages.length) {
+        setDigest({ summary: 'There are no messages in this room yet.', keyQuestions: [], unansweredQuestions: [] });
+        setMessageCount(0);
+        setGeneratedAt(new Date().toISOString());
+        return;
+      }
+      const answered = await AIService.submitQuery({ userId, query: buildRoomDigestPrompt(roomName, messages) });
+      if (current !== requestId.current) return;
+      setDigest(parseRoomDigest(answered.response));
+      setMessageCount(messages.length);
+      setGeneratedAt(answered.createdAt || new Date().toISOString());
+    } catch (err) {
+      if (current === requestId.current) {
+        // Both Errors and API error payloads carry a message
+        setError((err as { message?: string } | null)?.message || 'The assistant could not summarize this room');
+      }
+    } finally {
+      if (current === requestId.current) setIsLoading(false);
+    }
+  }, [roomId, roomName, userId]);
+
+  return { digest, messageCount, generatedAt, isLoading, error, generate };
+}
+
+export default useRoomDigest;
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MediaService } from '../../../services/media';
+import type { Media } from '../../../contexts/authTypes';
+import type { RoomMediaFilters } from '../../../services/media';
+
+/** Number of items requested per gallery page */
+const PAGE_SIZE = 24;
+
+/**
+ * Media shared in a room, loaded page by page and filtered on the server
+ */
+export function useRoomMedia(
+  roomId: string | undefined,
+  filters: RoomMediaFilters
+): {
+  media: Media[];
+  isLoading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+} {
+  const [media, setMedia] = useState<Media[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  // Responses for a previous room or filter are ignored
+  const requestId = useRef<number>(0);
+  const { type, userId } = filters;
+
+  const fetchPage = useCallback(async (skip: number) => {
+    if (!roomId) return;
+    const id = ++requestId.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await MediaService.getRoomMedia(roomId, skip, PAGE_SIZE, { type, userId });
+      if (id !== requestId.current) return;
+      setMedia(prev => {
+        if (!skip) return page || [];
+        const known = new Set(prev.map(m => m.id));
+        return [...prev, ...(page || []).filter(m => !known.has(m.id))];
+      });
+      setHasMore((page || []).length === PAGE_SIZE);
+    } catch (err) {
+      if (id === requestId.current) {
+        setError((err as { message?: string })?.message || 'Failed to load media');
+      }
+    } finally {
+      if (id === requestId.current) setIsLoading(false);
+    }
+  }, [roomId, type, userId]);
+
+  useEffect(() => {
+    setMedia([]);
+    setHasMore(false);
+    fetchPage(0);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || !hasMore) return;
+    await fetchPage(media.length);
+  }, [isLoading, hasMore, media.length, fetchPage]);
+
+  const refresh = useCallback(() => fetchPage(0), [fetchPage]);
+
+  return { media, isLoading, error, hasMore, loadMore, refresh };
+}
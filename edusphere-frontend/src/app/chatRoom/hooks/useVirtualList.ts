@@ -0,0 +1,230 @@
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+import type { RefObject } from 'react';
+
+export interface VirtualItem {
+  key: string;
+  index: number;
+  start: number;
+  size: number;
+}
+
+interface VirtualListOptions {
+  /** Stable keys for every row, in render order */
+  keys: string[];
+  /** Height guess for rows that haven't been measured yet */
+  estimateSize: (index: number) => number;
+  /** The scrolling container */
+  scrollRef: RefObject<HTMLElement | null>;
+  /** Extra rows rendered above and below the viewport */
+  overscan?: number;
+  /** Keep the view pinned to the bottom when content changes while already at the bottom */
+  followOutput?: boolean;
+}
+
+/** Distance from the bottom (px) still treated as "at the bottom" */
+const BOTTOM_THRESHOLD = 40;
+
+/**
+ * Find the first row whose bottom edge is below the given offset
+ * Time Complexity: O(log n)
+ */
+const findFirstVisible = (starts: number[], sizes: number[], offset: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (starts[mid] + sizes[mid] <= offset) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Windowed rendering for long lists with variable-height rows
+ * Rows are measured with a ResizeObserver once mounted; until then the estimate is used.
+ * The first visible row is kept anchored whenever offsets change (older rows prepended,
+ * rows above the viewport re-measured), unless the list is following the bottom.
+ */
+export function useVirtualList({
+  keys,
+  estimateSize,
+  scrollRef,
+  overscan = 8,
+  followOutput = true,
+}: VirtualListOptions): {
+  virtualItems: VirtualItem[];
+  totalSize: number;
+  firstVisibleIndex: number;
+  lastVisibleIndex: number;
+  measureElement: (el: HTMLElement | null) => (() => void) | void;
+  scrollToIndex: (index: number) => void;
+  scrollToBottom: () => void;
+  isAtBottom: () => boolean;
+} {
+  const measuredSizes = useRef<Map<string, number>>(new Map());
+  const [measureVersion, setMeasureVersion] = useState<number>(0);
+  const [viewport, setViewport] = useState<{ top: number; height: number }>({ top: 0, height: 0 });
+  const atBottom = useRef<boolean>(true);
+  const anchor = useRef<{ key: string; delta: number } | null>(null);
+  const resizeObserver = useRef<ResizeObserver | null>(null);
+  // The mounted element observed for each row key
+  const observed = useRef<Map<string, HTMLElement>>(new Map());
+
+  const layout = useMemo(() => {
+    const starts = new Array<number>(keys.length);
+    const sizes = new Array<number>(keys.length);
+    let total = 0;
+    for (let i = 0; i < keys.length; i++) {
+      starts[i] = total;
+      sizes[i] = measuredSizes.current.get(keys[i]) ?? estimateSize(i);
+      total += sizes[i];
+    }
+    return { starts, sizes, total };
+    // measureVersion invalidates the layout after rows report new sizes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [keys, estimateSize, measureVersion]);
+
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const keysRef = useRef(keys);
+  keysRef.current = keys;
+
+  const updateAnchor = useCallback((scrollTop: number) => {
+    const { starts, sizes } = layoutRef.current;
+    if (!starts.length) {
+      anchor.current = null;
+      return;
+    }
+    const index = findFirstVisible(starts, sizes, scrollTop);
+    anchor.current = { key: keysRef.current[index], delta: scrollTop - starts[index] };
+  }, []);
+
+  // Track viewport position and size
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    const sync = () => {
+      setViewport({ top: el.scrollTop, height: el.clientHeight });
+      atBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight <= BOTTOM_THRESHOLD;
+      updateAnchor(el.scrollTop);
+    };
+
+    sync();
+    el.addEventListener('scroll', sync, { passive: true });
+    const observer = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(sync) : null;
+    observer?.observe(el);
+    return () => {
+      el.removeEventListener('scroll', sync);
+      observer?.disconnect();
+    };
+  }, [scrollRef, updateAnchor]);
+
+  // Re-apply the scroll position whenever row offsets change
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+
+    if (followOutput && atBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    } else if (anchor.current) {
+      const index = keys.indexOf(anchor.current.key);
+      if (index !== -1) {
+        const desired = layout.starts[index] + anchor.current.delta;
+        if (Math.abs(el.scrollTop - desired) > 1) {
+          el.scrollTop = desired;
+        }
+      }
+    }
+    setViewport({ top: el.scrollTop, height: el.clientHeight });
+  }, [layout, keys, followOutput, scrollRef]);
+
+  // Rows stop being observed when they unmount or their element is replaced, so rows
+  // scrolled out of view can be garbage collected
+  const measureElement = useCallback((el: HTMLElement | null) => {
+    if (!el) return;
+    if (!resizeObserver.current) {
+      if (typeof ResizeObserver === 'undefined') return;
+      resizeObserver.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const key = (entry.target as HTMLElement).dataset.key;
+          if (!key) return;
+          const size = Math.round((entry.target as HTMLElement).offsetHeight);
+          if (size > 0 && measuredSizes.current.get(key) !== size) {
+            measuredSizes.current.set(key, size);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(v => v + 1);
+      });
+    }
+    const observer = resizeObserver.current;
+    const key = el.dataset.key;
+    if (key) {
+      const previous = observed.current.get(key);
+      if (previous && previous !== el) observer.unobserve(previous);
+      observed.current.set(key, el);
+    }
+    observer.observe(el);
+    return () => {
+      observer.unobserve(el);
+      if (key && observed.current.get(key) === el) observed.current.delete(key);
+    };
+  }, []);
+
+  useEffect(() => () => {
+    resizeObserver.current?.disconnect();
+    observed.current.clear();
+  }, []);
+
+  const { starts, sizes, total } = layout;
+  let firstVisibleIndex = 0;
+  let lastVisibleIndex = -1;
+  const virtualItems: VirtualItem[] = [];
+  if (keys.length) {
+    firstVisibleIndex = findFirstVisible(starts, sizes, viewport.top);
+    const startIndex = Math.max(0, firstVisibleIndex - overscan);
+    lastVisibleIndex = firstVisibleIndex;
+    while (lastVisibleIndex < keys.length - 1 && starts[lastVisibleIndex + 1] < viewport.top + viewport.height) {
+      lastVisibleIndex++;
+    }
+    const endIndex = Math.min(keys.length - 1, lastVisibleIndex + overscan);
+    for (let i = startIndex; i <= endIndex; i++) {
+      virtualItems.push({ key: keys[i], index: i, start: starts[i], size: sizes[i] });
+    }
+  }
+
+  const scrollToIndex = useCallback((index: number) => {
+    const el = scrollRef.current;
+    const { starts: rowStarts } = layoutRef.current;
+    if (!el || index < 0 || index >= rowStarts.length) return;
+    atBottom.current = false;
+    el.scrollTop = rowStarts[index];
+    updateAnchor(el.scrollTop);
+  }, [scrollRef, updateAnchor]);
+
+  const scrollToBottom = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    atBottom.current = true;
+    el.scrollTop = el.scrollHeight;
+    updateAnchor(el.scrollTop);
+  }, [scrollRef, updateAnchor]);
+
+  const isAtBottom = useCallback(() => atBottom.current, []);
+
+  return {
+    virtualItems,
+    totalSize: total,
+    firstVisibleIndex,
+    lastVisibleIndex,
+    measureElement,
+    scrollToIndex,
+    scrollToBottom,
+    isAtBottom,
+  };
+}
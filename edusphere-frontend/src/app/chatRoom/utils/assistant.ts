@@ -0,0 +1,41 @@
+/**
+ * Helpers for the @assistant bot in study rooms
+ */
+
+import { buildTranscript } from './roomDigest';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Message } from '../../../contexts/authTypes';
+
+export const ASSISTANT_NAME = 'Assistant';
+/** Recent messages sent along with a question so the assistant can follow the discussion */
+export const ASSISTANT_CONTEXT_MESSAGES = 20;
+
+/**
+ * The question of a message addressed to the assistant, or null when the message doesn't start
+ * with @assistant or asks nothing
+ */
+export const getAssistantQuestion = (content: string): string | null => {
+  const match = /^\s*@assistant(?![\w.-])[:,]?\s*([\s\S]*)$/i.exec(content);
+  const question = match?.[1].trim();
+  return question ? question : null;
+};
+
+export const isAssistantMessage = (message: Pick<Message, 'type'>): boolean => message.type === MessageType.ASSISTANT;
+
+/**
+ * The name shown for a message's author; assistant answers are posted by the asker's client
+ */
+export const getAuthorName = (message: Pick<Message, 'type' | 'user'>): string =>
+  isAssistantMessage(message) ? ASSISTANT_NAME : message.user?.username || 'Unknown User';
+
+/**
+ * The question as sent to the AI service, preceded by the room's recent discussion
+ */
+export const buildAssistantPrompt = (roomName: string, askedBy: string, question: string, recent: Message[]): string => {
+  const transcript = buildTranscript(recent.slice(-ASSISTANT_CONTEXT_MESSAGES));
+  return [
+    `You are the assistant of the study room "${roomName}". Answer in Markdown and keep it concise.`,
+    ...(transcript ? ['Recent messages, oldest first:', transcript, ''] : []),
+    `${askedBy} asks: ${question}`,
+  ].join('\n');
+};
@@ -0,0 +1,58 @@
+/**
+ * Helpers for validating and describing chat attachments
+ */
+
+import { MediaType } from '../../../contexts/authTypes';
+import type { StorageSettings } from '../../../services/settings';
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg'];
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogg', 'mov'];
+
+/**
+ * Lower-case extension of a file name, without the dot
+ */
+export const getFileExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+};
+
+/**
+ * Media type a file will be stored as
+ */
+export const getMediaType = (file: File): MediaType => {
+  const extension = getFileExtension(file.name);
+  if (file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(extension)) return MediaType.IMAGE;
+  if (file.type.startsWith('video/') || VIDEO_EXTENSIONS.includes(extension)) return MediaType.VIDEO;
+  return MediaType.FILE;
+};
+
+/**
+ * Human readable file size
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Value for the file input's accept attribute
+ */
+export const getAcceptAttribute = (settings: StorageSettings): string =>
+  settings.allowedFileTypes.map(type => `.${type.replace(/^\./, '').toLowerCase()}`).join(',');
+
+/**
+ * Check a file against the admin storage settings
+ * Returns an error message, or null when the file may be uploaded
+ */
+export const validateAttachment = (file: File, settings: StorageSettings): string | null => {
+  const extension = getFileExtension(file.name);
+  const allowed = settings.allowedFileTypes.map(type => type.replace(/^\./, '').toLowerCase());
+  if (!extension || !allowed.includes(extension)) {
+    return `${file.name}: .${extension || '?'} files are not allowed (allowed: ${allowed.join(', ')})`;
+  }
+  if (file.size > settings.maxFileSize * 1024 * 1024) {
+    return `${file.name} is ${formatFileSize(file.size)}; the limit is ${settings.maxFileSize} MB`;
+  }
+  return null;
+};
@@ -0,0 +1,90 @@
+/**
+ * Client-side content filter for the composer
+ * Mirrors the server's checks from the admin moderation settings so users get instant feedback;
+ * the server stays authoritative.
+ */
+
+import type { ModerationSettings } from '../../../services/settings';
+
+/**
+ * A message the user sent recently, for the rate, duplicate and link flood rules
+ */
+export interface SentRecord {
+  content: string;
+  links: number;
+  sentAt: number;
+}
+
+export type FilterResult =
+  | { status: 'ok' }
+  /** Sent, but queued for review */
+  | { status: 'flag'; reason: string }
+  /** Not sent; the reason is shown in the composer */
+  | { status: 'block'; reason: string };
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalize = (content: string): string => content.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Number of links in a message, including repeats
+ */
+export const countLinks = (content: string): number => (content.match(/https?:\/\//gi) || []).length;
+
+/**
+ * Blocked words and phrases that appear in the content as whole words
+ */
+export const findBlockedWords = (content: string, blockedWords: string[]): string[] =>
+  blockedWords.filter(word => {
+    const phrase = word.trim();
+    if (!phrase) return false;
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])${escapeRegExp(phrase).replace(/\s+/g, '\\s+')}(?=$|[^\\p{L}\\p{N}_])`, 'iu');
+    return pattern.test(content);
+  });
+
+const formatWindow = (seconds: number): string => (seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`);
+
+/**
+ * Check an outgoing message against the moderation settings
+ * Rate and spam rules block outright; blocked words block or flag depending on the configured action.
+ */
+export const checkMessage = (
+  content: string,
+  history: SentRecord[],
+  settings: ModerationSettings,
+  now: number = Date.now()
+): FilterResult => {
+  const within = (seconds: number) => history.filter(record => now - record.sentAt < seconds * 1000);
+
+  if (settings.rateLimitEnabled && within(settings.rateLimitWindow).length >= settings.rateLimitMessages) {
+    return {
+      status: 'block',
+      reason: `You're sending messages too quickly. The limit is ${settings.rateLimitMessages} per ${formatWindow(settings.rateLimitWindow)}.`,
+    };
+  }
+
+  const normalized = normalize(content);
+  if (settings.duplicateDetection && normalized && within(settings.duplicateWindow).some(record => normalize(record.content) === normalized)) {
+    return { status: 'block', reason: 'You just sent this message. Please don\'t repeat yourself.' };
+  }
+
+  const links = countLinks(content);
+  if (settings.linkFloodEnabled && links) {
+    const recentLinks = within(settings.linkFloodWindow).reduce((sum, record) => sum + record.links, 0);
+    if (recentLinks + links > settings.linkFloodLimit) {
+      return {
+        status: 'block',
+        reason: `Too many links. You can post up to ${settings.linkFloodLimit} per ${formatWindow(settings.linkFloodWindow)}.`,
+      };
+    }
+  }
+
+  const blocked = findBlockedWords(content, settings.blockedWords);
+  if (blocked.length) {
+    return settings.blockedWordAction === 'flag'
+      ? { status: 'flag', reason: `Blocked words: ${blocked.join(', ')}` }
+      : { status: 'block', reason: 'Your message contains language that isn\'t allowed in chat.' };
+  }
+
+  return { status: 'ok' };
+};
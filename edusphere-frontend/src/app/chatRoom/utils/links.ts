@@ -0,0 +1,18 @@
+/**
+ * URL extraction for link previews
+ */
+
+const URL_PATTERN = /https?:\/\/[^\s<>()"'`]+[^\s<>()"'`.,;:!?]/g;
+
+/**
+ * Distinct http(s) URLs in a message, ignoring those inside code spans and blocks
+ */
+export const extractUrls = (content: string, limit: number = 2): string[] => {
+  const withoutCode = content.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`\n]*`/g, ' ');
+  const urls: string[] = [];
+  for (const match of withoutCode.matchAll(URL_PATTERN)) {
+    if (!urls.includes(match[0])) urls.push(match[0]);
+    if (urls.length >= limit) break;
+  }
+  return urls;
+};
@@ -0,0 +1,54 @@
+/**
+ * @mention helpers for the composer and message rendering
+ */
+
+import type { MessageMention, User } from '../../../contexts/authTypes';
+
+/**
+ * The handle a member is mentioned by: their username, or the local part of their email
+ */
+export const getMentionHandle = (user: Pick<User, 'username' | 'email'>): string =>
+  user.username || user.email.split('@')[0];
+
+/**
+ * The partially typed mention ending at the caret, if any
+ * A mention starts with @ at the beginning of the text or after whitespace.
+ */
+export const getMentionQuery = (value: string, caret: number): { query: string; start: number } | null => {
+  const match = /(^|\s)@([\w.-]*)$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+/**
+ * Members matching a partially typed mention, best matches first
+ */
+export const filterMentionCandidates = (members: User[], query: string, limit: number = 6): User[] => {
+  const needle = query.toLowerCase();
+  const scored = members.flatMap(member => {
+    const handle = getMentionHandle(member).toLowerCase();
+    const name = `${member.firstName || ''} ${member.lastName || ''}`.trim().toLowerCase();
+    if (handle.startsWith(needle)) return [{ member, score: 0 }];
+    if (name.split(/\s+/).some(part => part.startsWith(needle))) return [{ member, score: 1 }];
+    if (handle.includes(needle) || name.includes(needle)) return [{ member, score: 2 }];
+    return [];
+  });
+  return scored
+    .sort((a, b) => a.score - b.score || getMentionHandle(a.member).localeCompare(getMentionHandle(b.member)))
+    .slice(0, limit)
+    .map(({ member }) => member);
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Mention tokens for every member whose @handle appears in the content
+ */
+export const extractMentions = (content: string, members: User[]): MessageMention[] => {
+  const withoutCode = content.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`\n]*`/g, ' ');
+  return members.flatMap(member => {
+    const handle = getMentionHandle(member);
+    const pattern = new RegExp(`(^|\\s)@${escapeRegExp(handle)}(?![\\w-]|\\.[\\w-])`, 'i');
+    return pattern.test(withoutCode) ? [{ userId: String(member.id), username: handle }] : [];
+  });
+};
@@ -0,0 +1,74 @@
+/**
+ * Helpers for turning a flat message list into the rows rendered by MessageList
+ */
+
+import type { Message } from '../../../contexts/authTypes';
+
+/**
+ * A single row in the chat timeline: either a date separator or a message
+ */
+export type MessageRow =
+  | { type: 'date'; key: string; label: string }
+  | { type: 'message'; key: string; label: string; message: Message };
+
+/**
+ * Format a date as a group label: "Today", "Yesterday" or a full date
+ */
+export const getDateLabel = (date: Date): string => {
+  const now = new Date();
+  const msgDay = date.getDate();
+  const msgMonth = date.getMonth();
+  const msgYear = date.getFullYear();
+  const nowDay = now.getDate();
+  const nowMonth = now.getMonth();
+  const nowYear = now.getFullYear();
+  const yesterday = new Date(now);
+  yesterday.setDate(nowDay - 1);
+  if (msgYear === nowYear && msgMonth === nowMonth && msgDay === nowDay) return 'Today';
+  if (msgYear === yesterday.getFullYear() && msgMonth === yesterday.getMonth() && msgDay === yesterday.getDate()) return 'Yesterday';
+  return date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+/**
+ * Stable React key for a message, falling back to its timestamp or position
+ * Messages sent from this browser keep their client id so the row survives the server swap
+ */
+export const getMessageKey = (msg: Message, index: number): string => {
+  if (msg.clientId) return `client_${msg.clientId}`;
+  return msg.id && msg.sent_at ? `${msg.id}_${msg.sent_at}` : String(msg.id || msg.sent_at || index);
+};
+
+/**
+ * Build timeline rows from messages ordered oldest-first, inserting a date row
+ * whenever the day changes
+ * Time Complexity: O(n)
+ */
+export const buildMessageRows = (messages: Message[]): MessageRow[] => {
+  const rows: MessageRow[] = [];
+  // Labels are cached per calendar day since toLocaleDateString is comparatively slow
+  const labelCache = new Map<string, string>();
+  const seenLabels = new Map<string, number>();
+  let lastLabel: string | null = null;
+
+  messages.forEach((msg, index) => {
+    let label = 'No date';
+    if (msg.sent_at) {
+      const date = new Date(msg.sent_at);
+      if (!isNaN(date.getTime())) {
+        const dayKey = `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+        label = labelCache.get(dayKey) ?? getDateLabel(date);
+        labelCache.set(dayKey, label);
+      }
+    }
+    if (label !== lastLabel) {
+      // Keyed by label (not position) so the row keeps its identity when older pages are prepended
+      const seen = seenLabels.get(label) ?? 0;
+      seenLabels.set(label, seen + 1);
+      rows.push({ type: 'date', key: seen ? `date_${label}_${seen}` : `date_${label}`, label });
+      lastLabel = label;
+    }
+    rows.push({ type: 'message', key: getMessageKey(msg, index), label, message: msg });
+  });
+
+  return rows;
+};
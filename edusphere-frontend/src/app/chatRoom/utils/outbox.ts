@@ -0,0 +1,82 @@
+/**
+ * Persisted outbox for chat messages that haven't been acknowledged by the server
+ * Entries survive reloads in localStorage and are flushed when the socket (re)connects
+ */
+
+import type { Media, MessageMention, MessageType } from '../../../contexts/authTypes';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  clientId: string;
+  roomId: string;
+  userId: string;
+  username: string;
+  content: string;
+  parentId?: string;
+  /** Already uploaded attachment; only the message referencing it is queued */
+  media?: Media;
+  mentions?: MessageMention[];
+  type?: MessageType;
+  flagReason?: string;
+  aiQueryId?: string;
+  createdAt: string;
+  status: OutboxStatus;
+}
+
+const storageKey = (roomId: string, userId: string): string => `edusphere_outbox_${userId}_${roomId}`;
+
+/**
+ * Generate a client-side id used until the server assigns the real message id
+ */
+export const generateClientId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `tmp-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Read all outbox entries for a room
+ */
+export const loadOutbox = (roomId: string, userId: string): OutboxEntry[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(roomId, userId));
+    return saved ? (JSON.parse(saved) as OutboxEntry[]) : [];
+  } catch (error) {
+    console.error('Failed to read chat outbox:', error);
+    return [];
+  }
+};
+
+const saveOutbox = (roomId: string, userId: string, entries: OutboxEntry[]): void => {
+  try {
+    if (entries.length) {
+      localStorage.setItem(storageKey(roomId, userId), JSON.stringify(entries));
+    } else {
+      localStorage.removeItem(storageKey(roomId, userId));
+    }
+  } catch (error) {
+    console.error('Failed to save chat outbox:', error);
+  }
+};
+
+/**
+ * Add an entry to the outbox, replacing any entry with the same client id
+ */
+export const putOutboxEntry = (entry: OutboxEntry): void => {
+  const entries = loadOutbox(entry.roomId, entry.userId).filter(e => e.clientId !== entry.clientId);
+  saveOutbox(entry.roomId, entry.userId, [...entries, entry]);
+};
+
+/**
+ * Update the status of an outbox entry
+ */
+export const setOutboxStatus = (roomId: string, userId: string, clientId: string, status: OutboxStatus): void => {
+  saveOutbox(roomId, userId, loadOutbox(roomId, userId).map(e => (e.clientId === clientId ? { ...e, status } : e)));
+};
+
+/**
+ * Remove an entry once it was delivered or discarded
+ */
+export const removeOutboxEntry = (roomId: string, userId: string, clientId: string): void => {
+  saveOutbox(roomId, userId, loadOutbox(roomId, userId).filter(e => e.clientId !== clientId));
+};
@@ -0,0 +1,86 @@
+/**
+ * Helpers for asking the AI assistant about a room's recent conversation
+ */
+
+import { getResponseText } from '../../aiAssistant/utils/response';
+import { MessageType } from '../../../contexts/authTypes';
+import type { Message } from '../../../contexts/authTypes';
+
+/** Message windows the user can choose from */
+export const ROOM_DIGEST_LIMITS = [25, 50, 100, 200] as const;
+export const DEFAULT_ROOM_DIGEST_LIMIT = 100;
+/** Longer messages are cut so one wall of text can't crowd out the rest of the window */
+const MAX_MESSAGE_LENGTH = 500;
+
+export interface RoomDigest {
+  summary: string;
+  keyQuestions: string[];
+  unansweredQuestions: string[];
+}
+
+const getAuthorName = (message: Message): string => {
+  const name = `${message.user?.firstName || ''} ${message.user?.lastName || ''}`.trim();
+  return name || message.user?.username || 'Unknown User';
+};
+
+const describeContent = (message: Message): string => {
+  const content = message.content.replace(/\s+/g, ' ').trim();
+  const text = content.length > MAX_MESSAGE_LENGTH ? `${content.slice(0, MAX_MESSAGE_LENGTH)}…` : content;
+  const attachment = message.media ? `[attachment: ${message.media.fileName || message.media.type}]` : '';
+  return [text, attachment].filter(Boolean).join(' ');
+};
+
+/**
+ * A transcript of the messages, oldest first, one line per message
+ * Deleted and system messages are left out; replies reference their thread's first message.
+ */
+export const buildTranscript = (messages: Message[]): string => [...messages]
+  .filter(m => !m.deletedAt && m.type !== MessageType.SYSTEM)
+  .sort((a, b) => new Date(a.sent_at).getTime() - new Date(b.sent_at).getTime())
+  .map(m => {
+    const body = describeContent(m);
+    if (!body) return null;
+    const reply = m.parentId ? ` (reply to #${m.parentId})` : '';
+    return `#${m.id} [${m.sent_at}] ${getAuthorName(m)}${reply}: ${body}`;
+  })
+  .filter((line): line is string => !!line)
+  .join('\n');
+
+/**
+ * The question asking the assistant to digest a room's transcript as JSON
+ */
+export const buildRoomDigestPrompt = (roomName: string, messages: Message[]): string => [
+  `Below are the most recent messages of the study room "${roomName}", oldest first.`,
+  'Reply with only a JSON object of the form',
+  '{"summary": string, "keyQuestions": string[], "unansweredQuestions": string[]}',
+  'where "summary" is a short Markdown summary of what was discussed, "keyQuestions" are the main',
+  'questions that were asked, and "unansweredQuestions" are questions nobody has answered yet.',
+  '',
+  buildTranscript(messages),
+].join('\n');
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+
+/**
+ * Read the digest out of the assistant's answer
+ * Answers that aren't the requested JSON are shown as the summary as-is.
+ */
+export const parseRoomDigest = (response: Record<string, unknown> | null | undefined): RoomDigest => {
+  const text = getResponseText(response).trim();
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(text);
+  const candidate = fenced ? fenced[1] : text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  try {
+    const parsed = JSON.parse(candidate) as Record<string, unknown>;
+    if (parsed && typeof parsed.summary === 'string') {
+      return {
+        summary: parsed.summary,
+        keyQuestions: toStringList(parsed.keyQuestions),
+        unansweredQuestions: toStringList(parsed.unansweredQuestions),
+      };
+    }
+  } catch {
+    // Not JSON; fall through to the plain answer
+  }
+  return { summary: text, keyQuestions: [], unansweredQuestions: [] };
+};
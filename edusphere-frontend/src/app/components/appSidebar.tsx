@@ -55,6 +55,26 @@ const AppSidebar: React.FC = () => {
       ),
       requiredRole: UserRole.STUDENT
     },
+    {
+      name: 'Messages',
+      path: '/app/messages',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+        </svg>
+      ),
+      requiredRole: UserRole.STUDENT
+    },
+    {
+      name: 'Search',
+      path: '/app/search',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+      ),
+      requiredRole: UserRole.STUDENT
+    },
     {
       name: 'AI Assistant',
       path: '/app/ai-assistant',
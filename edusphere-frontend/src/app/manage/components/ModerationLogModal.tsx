@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ModerationAction, ModerationService, RestrictionType } from '../../../services/moderation';
+import type { ModerationLogEntry, RoomRestriction } from '../../../services/moderation';
+import type { Room } from '../../../contexts/authTypes';
+
+interface ModerationLogModalProps {
+  room: Room;
+  moderatorId: string;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  [ModerationAction.DELETE_MESSAGE]: '🗑️ Deleted a message by',
+  [ModerationAction.MUTE]: '🔇 Muted',
+  [ModerationAction.UNMUTE]: '🔈 Unmuted',
+  [ModerationAction.KICK]: '👢 Kicked',
+  [ModerationAction.BAN]: '⛔ Banned',
+  [ModerationAction.UNBAN]: '✅ Unbanned',
+};
+
+/**
+ * A room's moderation log and its active mutes and bans
+ */
+const ModerationLogModal: React.FC<ModerationLogModalProps> = ({ room, moderatorId, onClose }) => {
+  const [entries, setEntries] = useState<ModerationLogEntry[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [restrictions, setRestrictions] = useState<RoomRestriction[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLog = useCallback(async (skip: number): Promise<void> => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await ModerationService.getModerationLog(room.id, skip, PAGE_SIZE);
+      setEntries(prev => (skip ? [...prev, ...page.entries] : page.entries));
+      setTotal(page.total);
+    } catch (err) {
+      console.error('Failed to fetch moderation log:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch moderation log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [room.id]);
+
+  const fetchRestrictions = useCallback(async (): Promise<void> => {
+    try {
+      setRestrictions(await ModerationService.getRestrictions(room.id));
+    } catch (err) {
+      console.error('Failed to fetch room restrictions:', err);
+    }
+  }, [room.id]);
+
+  useEffect(() => {
+    fetchLog(0);
+    fetchRestrictions();
+  }, [fetchLog, fetchRestrictions]);
+
+  const liftRestriction = async (restriction: RoomRestriction): Promise<void> => {
+    setError(null);
+    try {
+      if (restriction.type === RestrictionType.MUTE) {
+        await ModerationService.unmuteUser(room.id, restriction.userId, { moderatorId });
+      } else {
+        await ModerationService.unbanUser(room.id, restriction.userId, { moderatorId });
+      }
+      setRestrictions(prev => prev.filter(r => r !== restriction));
+      fetchLog(0);
+    } catch (err) {
+      console.error('Failed to lift restriction:', err);
+      setError(err instanceof Error ? err.message : 'Failed to lift restriction');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-2xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Moderation: {room.name}</h2>
+          <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+            <span className="text-red-800 text-sm">{error}</span>
+          </div>
+        )}
+
+        <div className="overflow-y-auto space-y-6">
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Active restrictions</h3>
+            {restrictions.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody is muted or banned.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {restrictions.map(restriction => (
+                  <li key={`${restriction.type}-${restriction.userId}`} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                    <div className="min-w-0">
+                      <span className="font-medium text-gray-900">{restriction.username || 'Unknown user'}</span>
+                      <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">
+                        {restriction.type === RestrictionType.MUTE ? 'Muted' : 'Banned'}
+                      </span>
+                      <div className="text-xs text-gray-500 truncate">
+                        {restriction.expiresAt ? `Until ${new Date(restriction.expiresAt).toLocaleString()}` : 'Until lifted'}
+                        {restriction.reason && ` · ${restriction.reason}`}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => liftRestriction(restriction)}
+                      className="text-primary-600 hover:text-primary-800 text-sm font-medium flex-shrink-0"
+                    >
+                      {restriction.type === RestrictionType.MUTE ? 'Unmute' : 'Unban'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">Log</h3>
+            {!entries.length ? (
+              <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No moderation actions yet.'}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {entries.map(entry => (
+                  <li key={entry.id} className="px-3 py-2 text-sm">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-gray-800">
+                        <span className="font-medium">{entry.moderatorName}</span>{' '}
+                        {ACTION_LABELS[entry.action] || entry.action}{' '}
+                        <span className="font-medium">{entry.targetUsername || 'a member'}</span>
+                        {entry.durationMinutes ? ` for ${entry.durationMinutes} min` : ''}
+                      </span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">{new Date(entry.createdAt).toLocaleString()}</span>
+                    </div>
+                    {entry.messageExcerpt && (
+                      <p className="text-xs text-gray-500 italic truncate">“{entry.messageExcerpt}”</p>
+                    )}
+                    {entry.reason && <p className="text-xs text-gray-500">Reason: {entry.reason}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {entries.length < total && (
+              <div className="text-center mt-3">
+                <button
+                  className="text-sm px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  onClick={() => fetchLog(entries.length)}
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModerationLogModal;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import useAuth from "../../contexts/useAuth";
 import { RoomService } from '../../services/room';
+import ModerationLogModal from './components/ModerationLogModal';
 import type { Room } from '../../contexts/authTypes';
 
 const ManageRooms: React.FC = () => {
@@ -9,6 +10,7 @@ const ManageRooms: React.FC = () => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [showCreateModal, setShowCreateModal] = useState<boolean>(false);
   const [editingRoom, setEditingRoom] = useState<Room | null>(null);
+  const [moderationRoom, setModerationRoom] = useState<Room | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
 
@@ -153,6 +155,20 @@ const ManageRooms: React.FC = () => {
     }
   };
 
+  const toggleAssistant = async (roomId: string, enabled: boolean): Promise<void> => {
+    setError(null);
+
+    try {
+      const updatedRoom = await RoomService.setAssistantEnabled(roomId, enabled);
+      setRooms(prev => prev.map(room =>
+        room.id === roomId ? updatedRoom : room
+      ));
+    } catch (err) {
+      console.error('Failed to update the assistant:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the assistant');
+    }
+  };
+
   const startEdit = (room: Room): void => {
     setEditingRoom(room);
     setFormData({
@@ -289,6 +305,11 @@ const ManageRooms: React.FC = () => {
                       <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(room.deletedAt ? false : true)}`}>
                         {room.deletedAt ? 'Inactive' : 'Active'}
                       </span>
+                      {room.assistantEnabled && (
+                        <span className="ml-2 inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800" title="Members can ask the AI with @assistant">
+                          🤖 Assistant
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {formatDate(room.createdAt)}
@@ -301,6 +322,19 @@ const ManageRooms: React.FC = () => {
                         >
                           Edit
                         </button>
+                        <button
+                          onClick={() => setModerationRoom(room)}
+                          className="text-gray-600 hover:text-gray-800"
+                        >
+                          Moderation
+                        </button>
+                        <button
+                          onClick={() => toggleAssistant(room.id, !room.assistantEnabled)}
+                          className="text-purple-600 hover:text-purple-800"
+                          title={room.assistantEnabled ? 'Stop answering @assistant in this room' : 'Let members ask the AI with @assistant'}
+                        >
+                          {room.assistantEnabled ? 'Disable assistant' : 'Enable assistant'}
+                        </button>
                         <button
                           onClick={() => toggleRoomStatus(room.id, !room.deletedAt)}
                           className="text-yellow-600 hover:text-yellow-800"
@@ -405,6 +439,14 @@ const ManageRooms: React.FC = () => {
           </div>
         </div>
       )}
+
+      {moderationRoom && user?.id && (
+        <ModerationLogModal
+          room={moderationRoom}
+          moderatorId={user.id.toString()}
+          onClose={() => setModerationRoom(null)}
+        />
+      )}
     </div>
   );
 };
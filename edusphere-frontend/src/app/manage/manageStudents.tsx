@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import useAuth from "../../contexts/useAuth";
+import { usePresence } from "../../hooks/usePresence";
+import PresenceIndicator from "../../components/PresenceIndicator";
 
 /**
  * Interface for Student data structure
@@ -47,6 +49,9 @@ const ManageStudents: React.FC = () => {
   const [showInviteModal, setShowInviteModal] = useState<boolean>(false);
   const [inviteEmail, setInviteEmail] = useState<string>('');
 
+  // Live presence of the selected room's members; watch only, so the teacher isn't listed as present
+  const { statusOf } = usePresence(selectedRoom !== 'all' ? selectedRoom : undefined, { announce: false });
+
   /**
    * Initialize students and rooms data on component mount
    * Simulates API call - replace with actual service call
@@ -369,12 +374,15 @@ const ManageStudents: React.FC = () => {
                 <tr key={student.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="flex items-center">
-                      <div className="flex-shrink-0 h-10 w-10">
+                      <div className="relative flex-shrink-0 h-10 w-10">
                         <img
                           className="h-10 w-10 rounded-full"
                           src={student.avatar}
                           alt={student.name}
                         />
+                        {selectedRoom !== 'all' && (
+                          <PresenceIndicator status={statusOf(student.id)} className="absolute bottom-0 right-0" />
+                        )}
                       </div>
                       <div className="ml-4">
                         <div className="text-sm font-medium text-gray-900">{student.name}</div>
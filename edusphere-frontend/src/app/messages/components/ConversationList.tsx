@@ -0,0 +1,82 @@
+import React from 'react';
+import { getConversationPreview, getConversationTitle } from '../utils/conversations';
+import type { Conversation } from '../../../services/directMessages';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId?: string;
+  currentUserId?: string;
+  isLoading: boolean;
+  onSelect: (conversationId: string) => void;
+}
+
+/**
+ * Format the time of the latest activity: time for today, date otherwise
+ */
+const formatActivity = (dateString: string): string => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+/**
+ * Conversations ordered by activity, with unread counts
+ */
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeConversationId,
+  currentUserId,
+  isLoading,
+  onSelect,
+}) => {
+  if (isLoading && !conversations.length) {
+    return <p className="text-sm text-gray-400 p-4">Loading conversations...</p>;
+  }
+  if (!conversations.length) {
+    return <p className="text-sm text-gray-500 p-4">No conversations yet. Start one to message a classmate or teacher.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-gray-100">
+      {conversations.map(conversation => {
+        const title = getConversationTitle(conversation, currentUserId);
+        const isActive = conversation.id === activeConversationId;
+        const isUnread = conversation.unreadCount > 0 && !isActive;
+        return (
+          <li key={conversation.id}>
+            <button
+              className={`w-full flex items-center gap-3 px-4 py-3 text-left ${isActive ? 'bg-primary-50' : 'hover:bg-gray-50'}`}
+              onClick={() => onSelect(conversation.id)}
+            >
+              <img
+                src={`https://ui-avatars.com/api/?name=${encodeURIComponent(title)}`}
+                alt=""
+                className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`truncate text-sm ${isUnread ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}>{title}</span>
+                  <span className="text-xs text-gray-400 flex-shrink-0">{formatActivity(conversation.updatedAt)}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`truncate text-xs ${isUnread ? 'text-gray-800' : 'text-gray-500'}`}>
+                    {getConversationPreview(conversation, currentUserId)}
+                  </span>
+                  {isUnread && (
+                    <span className="flex-shrink-0 min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary-600 text-white text-xs font-medium flex items-center justify-center">
+                      {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+                    </span>
+                  )}
+                </div>
+              </div>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ConversationList;
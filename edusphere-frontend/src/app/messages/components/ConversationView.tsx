@@ -0,0 +1,78 @@
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { useChatRoom } from '../../chatRoom/hooks/useChatRoom';
+import { useAttachments } from '../../chatRoom/hooks/useAttachments';
+import ChatTimeline from '../../chatRoom/components/ChatTimeline';
+import ConnectionBanner from '../../chatRoom/components/ConnectionBanner';
+import { getConversationTitle, getOtherParticipants } from '../utils/conversations';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import type { Message, User } from '../../../contexts/authTypes';
+import type { Conversation } from '../../../services/directMessages';
+
+interface ConversationViewProps {
+  conversation: Conversation;
+  user: User;
+  /** Called whenever the conversation has been seen, to clear its unread count */
+  onRead: (conversationId: string) => void;
+  onBack?: () => void;
+}
+
+/**
+ * An open direct conversation
+ * Conversations are backed by private rooms, so the chat room hook and timeline are reused as-is.
+ */
+const ConversationView: React.FC<ConversationViewProps> = ({ conversation, user, onRead, onBack }) => {
+  const currentUserId = String(user.id);
+  const chat = useChatRoom(conversation.roomId, currentUserId, user.username || getUserDisplayName(user));
+  const { connectionState, isFallback, reconnect, markRead } = chat;
+  const attachments = useAttachments(conversation.roomId, currentUserId);
+
+  const others = useMemo(() => getOtherParticipants(conversation, currentUserId), [conversation, currentUserId]);
+  const title = getConversationTitle(conversation, currentUserId);
+
+  const { id: conversationId } = conversation;
+  useEffect(() => {
+    onRead(conversationId);
+  }, [conversationId, onRead]);
+
+  const handleMessageVisible = useCallback((message: Message) => {
+    markRead(message);
+    onRead(conversationId);
+  }, [markRead, onRead, conversationId]);
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-4 flex-1 min-w-0">
+      <ChatTimeline
+        chat={chat}
+        attachments={attachments}
+        roomId={conversation.roomId}
+        currentUserId={currentUserId}
+        members={conversation.participants}
+        mentionCandidates={others.length > 1 ? others : undefined}
+        onMessageVisible={handleMessageVisible}
+        placeholder={`Message ${title}`}
+        header={(
+          <>
+            <div className="flex items-center gap-3 mb-4">
+              {onBack && (
+                <button className="md:hidden text-gray-500 hover:text-gray-700" onClick={onBack} title="Back to conversations">←</button>
+              )}
+              <div className="min-w-0">
+                <h2 className="text-lg font-semibold text-gray-900 truncate">{title}</h2>
+                {others.length > 1 && (
+                  <p className="text-xs text-gray-500">{others.length + 1} participants</p>
+                )}
+              </div>
+            </div>
+            <ConnectionBanner
+              state={connectionState}
+              isFallback={isFallback}
+              onRetry={reconnect}
+            />
+          </>
+        )}
+      />
+    </div>
+  );
+};
+
+export default ConversationView;
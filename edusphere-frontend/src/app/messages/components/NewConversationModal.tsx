@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { DirectMessageService, MAX_CONVERSATION_PARTICIPANTS } from '../../../services/directMessages';
+import { getUserDisplayName } from '../../../utils/userUtils';
+import type { CreateConversationData } from '../../../services/directMessages';
+import type { User } from '../../../contexts/authTypes';
+
+interface NewConversationModalProps {
+  currentUserId?: string;
+  onStart: (data: CreateConversationData) => Promise<void>;
+  onClose: () => void;
+}
+
+/** Pause after the last keystroke before looking people up */
+const SEARCH_DEBOUNCE = 300;
+
+/**
+ * Pick one person for a direct conversation, or several for a group
+ */
+const NewConversationModal: React.FC<NewConversationModalProps> = ({ currentUserId, onStart, onClose }) => {
+  const [search, setSearch] = useState<string>('');
+  const [contacts, setContacts] = useState<User[]>([]);
+  const [selected, setSelected] = useState<User[]>([]);
+  const [groupName, setGroupName] = useState<string>('');
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [isStarting, setIsStarting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await DirectMessageService.searchContacts(search.trim());
+        if (!cancelled) setContacts((found || []).filter(c => String(c.id) !== currentUserId));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load contacts');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, currentUserId]);
+
+  const isFull = selected.length >= MAX_CONVERSATION_PARTICIPANTS - 1;
+
+  const toggle = (contact: User) => {
+    setSelected(prev => (
+      prev.some(s => s.id === contact.id)
+        ? prev.filter(s => s.id !== contact.id)
+        : isFull ? prev : [...prev, contact]
+    ));
+  };
+
+  const handleStart = async () => {
+    if (!selected.length) return;
+    setIsStarting(true);
+    setError(null);
+    try {
+      await onStart({
+        participantIds: selected.map(s => String(s.id)),
+        name: selected.length > 1 && groupName.trim() ? groupName.trim() : undefined,
+      });
+    } catch (err) {
+      // Typically a recipient whose privacy settings don't accept messages from us
+      setError(err instanceof Error ? err.message : 'Failed to start conversation');
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-md w-full p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">New message</h3>
+          <button className="text-gray-400 hover:text-gray-600" onClick={onClose} title="Close">✕</button>
+        </div>
+
+        {selected.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {selected.map(s => (
+              <span key={s.id} className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-primary-100 text-primary-700">
+                {getUserDisplayName(s)}
+                <button onClick={() => toggle(s)} title="Remove">✕</button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <input
+          type="search"
+          autoFocus
+          placeholder="Search people..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+
+        <ul className="max-h-60 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+          {isSearching && !contacts.length ? (
+            <li className="p-3 text-sm text-gray-400">Searching...</li>
+          ) : !contacts.length ? (
+            <li className="p-3 text-sm text-gray-500">No one found</li>
+          ) : (
+            contacts.map(contact => {
+              const isSelected = selected.some(s => s.id === contact.id);
+              return (
+                <li key={contact.id}>
+                  <label className={`flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50 ${!isSelected && isFull ? 'opacity-50' : ''}`}>
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      disabled={!isSelected && isFull}
+                      onChange={() => toggle(contact)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="flex-1 truncate text-gray-800">{getUserDisplayName(contact)}</span>
+                    <span className="text-xs text-gray-500 capitalize">{contact.role.toLowerCase()}</span>
+                  </label>
+                </li>
+              );
+            })
+          )}
+        </ul>
+        {isFull && (
+          <p className="text-xs text-gray-500">Group conversations are limited to {MAX_CONVERSATION_PARTICIPANTS} people.</p>
+        )}
+
+        {selected.length > 1 && (
+          <input
+            type="text"
+            placeholder="Group name (optional)"
+            value={groupName}
+            onChange={e => setGroupName(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleStart}
+            disabled={!selected.length || isStarting}
+            className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            {isStarting ? 'Starting...' : selected.length > 1 ? 'Start group' : 'Start conversation'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewConversationModal;
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { DirectMessageService } from '../../../services/directMessages';
+import { socketService } from '../../../services/socket';
+import type { Conversation, CreateConversationData } from '../../../services/directMessages';
+import type { ConversationUpdatedData } from '../../../services/socket';
+
+const byActivity = (a: Conversation, b: Conversation): number =>
+  new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+
+/**
+ * The user's direct conversations, kept in activity order with live unread counts
+ * Messages arriving in the open conversation don't count as unread.
+ */
+export function useConversations(activeConversationId?: string): {
+  conversations: Conversation[];
+  isLoading: boolean;
+  error: string | null;
+  totalUnread: number;
+  refresh: () => Promise<void>;
+  startConversation: (data: CreateConversationData) => Promise<Conversation>;
+  markRead: (conversationId: string) => void;
+} {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const activeIdRef = useRef<string | undefined>(activeConversationId);
+  const conversationsRef = useRef<Conversation[]>([]);
+
+  useEffect(() => {
+    activeIdRef.current = activeConversationId;
+  }, [activeConversationId]);
+
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await DirectMessageService.getConversations();
+      setConversations([...(data || [])].sort(byActivity));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const markRead = useCallback((conversationId: string) => {
+    if (!conversationsRef.current.some(c => c.id === conversationId && c.unreadCount)) return;
+    setConversations(prev => prev.map(c => (c.id === conversationId ? { ...c, unreadCount: 0 } : c)));
+    DirectMessageService.markConversationRead(conversationId)
+      .catch(err => console.error('Failed to mark conversation as read:', err));
+  }, []);
+
+  // Live activity; conversations we don't know yet were just started by someone else
+  useEffect(() => {
+    const handleUpdate = (data: ConversationUpdatedData) => {
+      const { message } = data;
+      if (!conversationsRef.current.some(c => c.id === data.conversation_id)) {
+        refresh();
+        return;
+      }
+      const isActive = activeIdRef.current === data.conversation_id;
+      setConversations(prev => prev
+        .map(c => (c.id === data.conversation_id ? {
+          ...c,
+          updatedAt: message.sent_at,
+          unreadCount: isActive ? 0 : data.unread_count,
+          lastMessage: {
+            id: message.id,
+            room_id: message.room_id,
+            user_id: String(message.user_id),
+            content: message.content,
+            sent_at: message.sent_at,
+            media: message.media,
+            user: { id: String(message.user?.id ?? message.user_id), username: message.user?.username || 'Unknown User' },
+          },
+        } : c))
+        .sort(byActivity));
+      if (isActive) {
+        DirectMessageService.markConversationRead(data.conversation_id)
+          .catch(err => console.error('Failed to mark conversation as read:', err));
+      }
+    };
+
+    const release = socketService.acquire();
+    const unsubscribe = socketService.onConversationUpdated(handleUpdate);
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [refresh]);
+
+  const startConversation = useCallback(async (data: CreateConversationData) => {
+    const conversation = await DirectMessageService.createConversation(data);
+    setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)].sort(byActivity));
+    return conversation;
+  }, []);
+
+  const totalUnread = conversations.reduce((sum, c) => sum + (c.unreadCount || 0), 0);
+
+  return { conversations, isLoading, error, totalUnread, refresh, startConversation, markRead };
+}
+
+export default useConversations;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import useAuth from '../../contexts/useAuth';
+import { useConversations } from './hooks/useConversations';
+import ConversationList from './components/ConversationList';
+import ConversationView from './components/ConversationView';
+import NewConversationModal from './components/NewConversationModal';
+import type { CreateConversationData } from '../../services/directMessages';
+
+/**
+ * Direct and small group conversations
+ */
+const Messages: React.FC = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [showNew, setShowNew] = useState<boolean>(false);
+  const { conversations, isLoading, error, totalUnread, startConversation, markRead } = useConversations(conversationId);
+
+  const currentUserId = user ? String(user.id) : undefined;
+  const active = conversations.find(c => c.id === conversationId);
+
+  const openConversation = (id: string): void => {
+    navigate(`/app/messages/${id}`);
+  };
+
+  const handleStart = async (data: CreateConversationData): Promise<void> => {
+    const conversation = await startConversation(data);
+    setShowNew(false);
+    openConversation(conversation.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Messages</h1>
+            <p className="text-gray-600">
+              {totalUnread ? `${totalUnread} unread ${totalUnread === 1 ? 'message' : 'messages'}` : 'Private conversations with classmates and teachers.'}
+            </p>
+          </div>
+          <button
+            onClick={() => setShowNew(true)}
+            className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors duration-200"
+          >
+            New message
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <aside className={`w-full md:w-72 flex-shrink-0 border border-gray-200 rounded-lg overflow-y-auto max-h-[36rem] ${conversationId ? 'hidden md:block' : ''}`}>
+            <ConversationList
+              conversations={conversations}
+              activeConversationId={conversationId}
+              currentUserId={currentUserId}
+              isLoading={isLoading}
+              onSelect={openConversation}
+            />
+          </aside>
+          {active && user ? (
+            <ConversationView
+              key={active.id}
+              conversation={active}
+              user={user}
+              onRead={markRead}
+              onBack={() => navigate('/app/messages')}
+            />
+          ) : (
+            <div className={`flex-1 items-center justify-center bg-gray-50 rounded-lg min-h-[24rem] ${conversationId ? 'flex' : 'hidden md:flex'}`}>
+              <p className="text-gray-500">
+                {conversationId
+                  ? (isLoading ? 'Loading conversation...' : 'This conversation is not available.')
+                  : 'Select a conversation or start a new one.'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showNew && (
+        <NewConversationModal
+          currentUserId={currentUserId}
+          onStart={handleStart}
+          onClose={() => setShowNew(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Messages;
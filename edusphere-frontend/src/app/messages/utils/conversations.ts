@@ -0,0 +1,36 @@
+/**
+ * Display helpers for direct conversations
+ */
+
+import type { Conversation } from '../../../services/directMessages';
+import type { User } from '../../../contexts/authTypes';
+import { getUserDisplayName } from '../../../utils/userUtils';
+
+/**
+ * Everyone in the conversation except the current user
+ */
+export const getOtherParticipants = (conversation: Conversation, currentUserId?: string): User[] =>
+  conversation.participants.filter(p => String(p.id) !== currentUserId);
+
+/**
+ * Group name, or the names of the other participants
+ */
+export const getConversationTitle = (conversation: Conversation, currentUserId?: string): string => {
+  if (conversation.name) return conversation.name;
+  const others = getOtherParticipants(conversation, currentUserId);
+  if (!others.length) return 'Just you';
+  if (others.length <= 3) return others.map(getUserDisplayName).join(', ');
+  return `${others.slice(0, 2).map(getUserDisplayName).join(', ')} and ${others.length - 2} others`;
+};
+
+/**
+ * One-line preview of the latest message
+ */
+export const getConversationPreview = (conversation: Conversation, currentUserId?: string): string => {
+  const last = conversation.lastMessage;
+  if (!last) return 'No messages yet';
+  if (last.deletedAt) return 'Message deleted';
+  const text = last.content.replace(/\s+/g, ' ').trim() || (last.media ? '📎 Attachment' : '');
+  const isOwn = String(last.user_id ?? last.user?.id) === currentUserId;
+  return isOwn ? `You: ${text}` : text;
+};
@@ -0,0 +1,221 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { RoomService } from '../../services/room';
+import { useMessageSearch } from '../../hooks/useMessageSearch';
+import SearchResultItem from '../../components/SearchResultItem';
+import useAuth from '../../contexts/useAuth';
+import { getUserDisplayName } from '../../utils/userUtils';
+import type { Message, Room, User } from '../../contexts/authTypes';
+
+/**
+ * Message search across every room the user has joined
+ */
+const Search: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomsError, setRoomsError] = useState<string | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [roomId, setRoomId] = useState<string>('');
+  const [authorId, setAuthorId] = useState<string>('');
+  const [from, setFrom] = useState<string>('');
+  const [to, setTo] = useState<string>('');
+  const [hasAttachment, setHasAttachment] = useState<boolean>(false);
+
+  /**
+   * Fetch rooms for the room and author filters
+   */
+  useEffect(() => {
+    const fetchRooms = async (): Promise<void> => {
+      try {
+        const roomsData = await RoomService.getRooms();
+        setRooms(roomsData);
+      } catch (err) {
+        console.error('Failed to fetch rooms:', err);
+        setRoomsError(err instanceof Error ? err.message : 'Failed to fetch rooms');
+      }
+    };
+
+    fetchRooms();
+  }, []);
+
+  // Rooms without a member list are assumed joined; the server scopes results either way
+  const joinedRooms = useMemo(() => rooms.filter(room => (
+    !room.users || !user || room.users.some(member => String(member.id) === String(user.id))
+  )), [rooms, user]);
+
+  const roomNames = useMemo(() => {
+    const names: { [id: string]: string } = {};
+    joinedRooms.forEach(room => { names[room.id] = room.name; });
+    return names;
+  }, [joinedRooms]);
+
+  const authors = useMemo(() => {
+    const byId = new Map<string, User>();
+    joinedRooms
+      .filter(room => !roomId || room.id === roomId)
+      .forEach(room => (room.users || []).forEach(member => byId.set(String(member.id), member)));
+    return [...byId.values()].sort((a, b) => getUserDisplayName(a).localeCompare(getUserDisplayName(b)));
+  }, [joinedRooms, roomId]);
+
+  const { results, total, isLoading, error, hasMore, loadMore, isActive } = useMessageSearch({
+    query,
+    roomId: roomId || undefined,
+    userId: authorId || undefined,
+    from: from || undefined,
+    to: to || undefined,
+    hasAttachment: hasAttachment || undefined,
+  });
+
+  const hasFilters = !!(roomId || authorId || from || to || hasAttachment);
+
+  const clearFilters = (): void => {
+    setRoomId('');
+    setAuthorId('');
+    setFrom('');
+    setTo('');
+    setHasAttachment(false);
+  };
+
+  const openResult = (message: Message): void => {
+    navigate(`/app/rooms/${message.room_id}?message=${encodeURIComponent(message.id)}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Search Messages</h1>
+          <p className="text-gray-600">Find messages in any of the rooms you have joined.</p>
+        </div>
+
+        <div className="relative mb-4">
+          <input
+            type="search"
+            autoFocus
+            placeholder="Search messages..."
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          <svg className="absolute left-3 top-2.5 h-5 w-5 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Room</label>
+            <select
+              value={roomId}
+              onChange={e => {
+                setRoomId(e.target.value);
+                setAuthorId('');
+              }}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">All joined rooms</option>
+              {joinedRooms.map(room => (
+                <option key={room.id} value={room.id}>{room.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Author</label>
+            <select
+              value={authorId}
+              onChange={e => setAuthorId(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">Anyone</option>
+              {authors.map(author => (
+                <option key={author.id} value={String(author.id)}>{getUserDisplayName(author)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">From</label>
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={e => setFrom(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">To</label>
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={e => setTo(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <div className="flex items-end gap-3">
+            <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+              <input
+                type="checkbox"
+                checked={hasAttachment}
+                onChange={e => setHasAttachment(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Has attachment
+            </label>
+            {hasFilters && (
+              <button className="text-xs text-primary-600 hover:underline py-2" onClick={clearFilters}>
+                Clear filters
+              </button>
+            )}
+          </div>
+        </div>
+
+        {roomsError && (
+          <p className="text-sm text-red-600 mb-4">{roomsError}</p>
+        )}
+
+        {/* Results */}
+        {!isActive ? (
+          <p className="text-center text-gray-500 py-12">Type at least 2 characters to search.</p>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <span className="text-red-800">{error}</span>
+          </div>
+        ) : !results.length ? (
+          <p className="text-center text-gray-500 py-12">{isLoading ? 'Searching...' : 'No messages match your search.'}</p>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-500 mb-2">{total} {total === 1 ? 'result' : 'results'}</p>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {results.map(message => (
+                <li key={message.id}>
+                  <SearchResultItem
+                    message={message}
+                    query={query}
+                    roomName={roomNames[message.room_id] || 'Unknown room'}
+                    onSelect={openResult}
+                  />
+                </li>
+              ))}
+            </ul>
+            {hasMore && (
+              <div className="text-center mt-4">
+                <button
+                  className="text-sm px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  onClick={loadMore}
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Search;
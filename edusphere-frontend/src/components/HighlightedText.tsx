@@ -0,0 +1,31 @@
+import React, { useMemo } from 'react';
+import { buildSearchPattern } from '../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+  className?: string;
+}
+
+/**
+ * Plain text with every occurrence of the query's words marked
+ */
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, className = '' }) => {
+  const parts = useMemo(() => {
+    const pattern = buildSearchPattern(query);
+    // Splitting on a capturing pattern puts the matches at the odd indexes
+    return pattern ? text.split(pattern) : [text];
+  }, [text, query]);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) => (
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      ))}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { PresenceStatus } from '../services/socket';
+
+/**
+ * Presence indicator component props
+ */
+interface PresenceIndicatorProps {
+  status: PresenceStatus;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<PresenceStatus, { color: string; label: string }> = {
+  online: { color: 'bg-green-500', label: 'Online' },
+  idle: { color: 'bg-yellow-400', label: 'Away' },
+  offline: { color: 'bg-gray-300', label: 'Offline' },
+};
+
+/**
+ * Small coloured dot showing whether a user is online, away or offline
+ */
+const PresenceIndicator: React.FC<PresenceIndicatorProps> = ({ status, className = '' }) => {
+  const { color, label } = STATUS_STYLES[status];
+  return (
+    <span
+      className={`inline-block h-2.5 w-2.5 rounded-full ring-2 ring-white ${color} ${className}`}
+      title={label}
+      aria-label={label}
+    />
+  );
+};
+
+export default PresenceIndicator;
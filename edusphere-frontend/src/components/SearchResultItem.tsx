@@ -0,0 +1,38 @@
+import React from 'react';
+import HighlightedText from './HighlightedText';
+import { getSearchExcerpt } from '../utils/search';
+import type { Message } from '../contexts/authTypes';
+
+interface SearchResultItemProps {
+  message: Message;
+  query: string;
+  /** Shown in cross-room results */
+  roomName?: string;
+  onSelect: (message: Message) => void;
+}
+
+/**
+ * A matching message: author, time and an excerpt with the query highlighted
+ */
+const SearchResultItem: React.FC<SearchResultItemProps> = ({ message, query, roomName, onSelect }) => (
+  <button
+    className="w-full text-left px-3 py-2 rounded-md hover:bg-primary-50 focus:outline-none focus:bg-primary-50"
+    onClick={() => onSelect(message)}
+  >
+    <div className="flex items-center gap-2 text-xs text-gray-500">
+      <span className="font-semibold text-primary-700">{message.user?.username || 'Unknown User'}</span>
+      {roomName && <span className="truncate">in {roomName}</span>}
+      <span className="ml-auto whitespace-nowrap">{new Date(message.sent_at).toLocaleString()}</span>
+    </div>
+    <p className="text-sm text-gray-700 mt-0.5 break-words">
+      {message.content ? (
+        <HighlightedText text={getSearchExcerpt(message.content, query)} query={query} />
+      ) : (
+        <span className="italic text-gray-400">Attachment</span>
+      )}
+      {message.media && message.content && <span className="ml-1" title="Has attachment">📎</span>}
+    </p>
+  </button>
+);
+
+export default SearchResultItem;
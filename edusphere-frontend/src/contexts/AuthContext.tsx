@@ -3,6 +3,7 @@ import type { ReactNode } from 'react';
 import { ROLE_HIERARCHY, UserRole, mapBackendRoleToUserRole } from './authTypes';
 import type { User, LoginCredentials, RegistrationData } from './authTypes';
 import { AuthService } from '../services/auth';
+import { socketService } from '../services/socket';
 
 // Re-export types for convenience
 export { UserRole } from './authTypes';
@@ -114,6 +115,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     initializeAuth();
   }, []);
 
+  /**
+   * Keep the chat connection authenticated with the current token
+   * Reconnects with the new token after login, and closes the connection on logout
+   */
+  useEffect(() => {
+    if (!isLoading) {
+      socketService.refreshAuth(token);
+    }
+  }, [token, isLoading]);
+
   /**
    * Authenticate user with email and password
    * @param email - User email address
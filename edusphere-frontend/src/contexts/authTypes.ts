@@ -150,6 +150,41 @@ export interface Room {
   userCount?: number;
   messageCount?: number;
   mediaCount?: number;
+  /** Members can ask the AI assistant with @assistant */
+  assistantEnabled?: boolean;
+}
+
+/**
+ * Message reactions keyed by emoji, each holding the ids of the users who reacted
+ */
+export type MessageReactions = Record<string, string[]>;
+
+/**
+ * Client-side delivery state of a message sent from this browser
+ */
+export type MessageDeliveryStatus = 'pending' | 'failed' | 'sent';
+
+/**
+ * Message type enum
+ * SYSTEM messages are generated locally (member joined/left) and never stored;
+ * ANNOUNCEMENT messages are posted by teachers and notify every room member
+ */
+export const MessageType = {
+  TEXT: 'TEXT',
+  SYSTEM: 'SYSTEM',
+  ANNOUNCEMENT: 'ANNOUNCEMENT',
+  /** Answer posted by the room's AI assistant */
+  ASSISTANT: 'ASSISTANT'
+} as const;
+
+export type MessageType = typeof MessageType[keyof typeof MessageType];
+
+/**
+ * A user @mentioned in a message; username is the handle as written in the content
+ */
+export interface MessageMention {
+  userId: string;
+  username: string;
 }
 
 /**
@@ -161,7 +196,20 @@ export interface Message {
   user_id: string;
   content: string;
   sent_at: string;
+  editedAt?: string;
   deletedAt?: string;
+  reactions?: MessageReactions;
+  parentId?: string;
+  parent?: Pick<Message, 'id' | 'content' | 'user' | 'deletedAt'>;
+  replyCount?: number;
+  clientId?: string;
+  status?: MessageDeliveryStatus;
+  type?: MessageType;
+  mediaId?: string;
+  media?: Media;
+  mentions?: MessageMention[];
+  pinnedAt?: string;
+  pinnedBy?: string;
   user: {
     id: string;
     username: string;
@@ -176,7 +224,8 @@ export interface Message {
  */
 export const MediaType = {
   IMAGE: 'IMAGE',
-  VIDEO: 'VIDEO'
+  VIDEO: 'VIDEO',
+  FILE: 'FILE'
 } as const;
 
 export type MediaType = typeof MediaType[keyof typeof MediaType];
@@ -190,6 +239,11 @@ export interface Media {
   type: MediaType;
   userId: string;
   roomId: string;
+  fileName?: string;
+  mimeType?: string;
+  size?: number;
+  /** Message the file was shared in */
+  messageId?: string;
   createdAt: string;
   updatedAt: string;
   user?: User;
@@ -204,8 +258,25 @@ export interface AIQuery {
   query: string;
   response: Record<string, unknown>;
   userId: string;
+  /** Conversation the query belongs to; absent for queries asked before sessions existed */
+  sessionId?: string;
   createdAt: string;
   updatedAt: string;
   deletedAt?: string;
   user?: User;
 }
+
+/**
+ * AI Session interface grouping AI queries into one conversation
+ */
+export interface AISession {
+  id: string;
+  userId: string;
+  title: string;
+  /** Folder the session is filed under; unfiled when empty */
+  folder?: string | null;
+  archived: boolean;
+  createdAt: string;
+  /** Bumped whenever a question is answered */
+  updatedAt: string;
+}
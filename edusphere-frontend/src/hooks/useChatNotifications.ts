@@ -0,0 +1,85 @@
+import { useEffect, useRef } from 'react';
+import { useLocation } from 'react-router-dom';
+import useAuth from '../contexts/useAuth';
+import useNotifications from '../contexts/useNotifications';
+import { NotificationType, NotificationPriority } from '../contexts/NotificationContext';
+import { socketService } from '../services/socket';
+import type { AnnouncementData, MentionData, SocketMessage } from '../services/socket';
+
+/** Longest message excerpt shown in the notification */
+const EXCERPT_LENGTH = 120;
+
+const excerpt = (content: string): string =>
+  content.length > EXCERPT_LENGTH ? `${content.slice(0, EXCERPT_LENGTH)}…` : content;
+
+const messageUrl = (roomId: string, message: SocketMessage): string =>
+  `/app/rooms/${roomId}?message=${encodeURIComponent(message.id)}`;
+
+/**
+ * Push notifications for chat activity addressed to the signed-in user:
+ * - @mentions in a room they aren't viewing
+ * - announcements in any of their rooms
+ * Mounted once by the app layout so they arrive on every page.
+ */
+export function useChatNotifications(): void {
+  const { user } = useAuth();
+  const { addNotification } = useNotifications();
+  const location = useLocation();
+  const userId = user ? String(user.id) : undefined;
+
+  // Read through refs so route changes don't resubscribe
+  const pathnameRef = useRef<string>(location.pathname);
+  const addNotificationRef = useRef(addNotification);
+  useEffect(() => {
+    pathnameRef.current = location.pathname;
+    addNotificationRef.current = addNotification;
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const handleMention = (data: MentionData) => {
+      const { message } = data;
+      if (String(message.user_id) === userId) return;
+      if (message.mentions && !message.mentions.some(m => String(m.user_id) === userId)) return;
+      if (pathnameRef.current === `/app/rooms/${data.room_id}` && document.visibilityState === 'visible') return;
+
+      const sender = message.user?.username || 'Someone';
+      addNotificationRef.current({
+        title: `${sender} mentioned you${data.room_name ? ` in ${data.room_name}` : ''}`,
+        message: excerpt(message.content),
+        type: NotificationType.MESSAGE,
+        priority: NotificationPriority.HIGH,
+        actionUrl: messageUrl(data.room_id, message),
+        metadata: { roomId: data.room_id, messageId: message.id },
+      });
+    };
+
+    // Announcements are kept in the notification list even when the room is open
+    const handleAnnouncement = (data: AnnouncementData) => {
+      const { message } = data;
+      if (String(message.user_id) === userId) return;
+
+      addNotificationRef.current({
+        title: `Announcement${data.room_name ? ` in ${data.room_name}` : ''}`,
+        message: excerpt(message.content),
+        type: NotificationType.ANNOUNCEMENT,
+        priority: NotificationPriority.HIGH,
+        actionUrl: messageUrl(data.room_id, message),
+        metadata: { roomId: data.room_id, messageId: message.id },
+      });
+    };
+
+    const release = socketService.acquire();
+    const unsubscribers = [
+      socketService.onMention(handleMention),
+      socketService.onAnnouncement(handleAnnouncement),
+    ];
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      release();
+    };
+  }, [userId]);
+}
+
+export default useChatNotifications;
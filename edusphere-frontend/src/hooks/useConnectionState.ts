@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { socketService } from '../services/socket';
+import type { ConnectionState } from '../services/socket';
+
+const subscribe = (onChange: () => void) => socketService.onConnectionStateChange(onChange);
+const getSnapshot = () => socketService.getConnectionState();
+
+/**
+ * Current state of the shared chat connection, re-rendering on every change
+ */
+export function useConnectionState(): ConnectionState {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+export default useConnectionState;
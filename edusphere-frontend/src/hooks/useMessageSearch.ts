@@ -0,0 +1,90 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RoomService } from '../services/room';
+import type { Message } from '../contexts/authTypes';
+import type { MessageSearchFilters } from '../services/room';
+
+/** Results requested per page */
+const PAGE_SIZE = 20;
+/** Pause after the last keystroke before searching */
+const DEBOUNCE_DELAY = 300;
+/** Shorter queries aren't sent */
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Debounced, paged message search
+ * Results reset whenever the filters change; stale responses from earlier filters are dropped.
+ */
+export function useMessageSearch(filters: MessageSearchFilters): {
+  results: Message[];
+  total: number;
+  isLoading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  /** Whether the query is long enough to search */
+  isActive: boolean;
+} {
+  const [results, setResults] = useState<Message[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef<number>(0);
+
+  const { query, roomId, userId, from, to, hasAttachment } = filters;
+  const isActive = query.trim().length >= MIN_QUERY_LENGTH;
+
+  useEffect(() => {
+    const current = ++requestId.current;
+    setResults([]);
+    setTotal(0);
+    setError(null);
+    if (!isActive) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const page = await RoomService.searchMessages({ query: query.trim(), roomId, userId, from, to, hasAttachment }, 0, PAGE_SIZE);
+        if (current !== requestId.current) return;
+        setResults(page.messages || []);
+        setTotal(page.total ?? (page.messages || []).length);
+      } catch (err) {
+        if (current === requestId.current) {
+          setError(err instanceof Error ? err.message : 'Search failed');
+        }
+      } finally {
+        if (current === requestId.current) setIsLoading(false);
+      }
+    }, DEBOUNCE_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [isActive, query, roomId, userId, from, to, hasAttachment]);
+
+  const loadMore = useCallback(async () => {
+    if (!isActive || isLoading || results.length >= total) return;
+    const current = requestId.current;
+    setIsLoading(true);
+    try {
+      const page = await RoomService.searchMessages(
+        { query: query.trim(), roomId, userId, from, to, hasAttachment },
+        results.length,
+        PAGE_SIZE
+      );
+      if (current !== requestId.current) return;
+      setResults(prev => [...prev, ...(page.messages || []).filter(m => !prev.some(p => p.id === m.id))]);
+      setTotal(page.total ?? total);
+    } catch (err) {
+      if (current === requestId.current) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      }
+    } finally {
+      if (current === requestId.current) setIsLoading(false);
+    }
+  }, [isActive, isLoading, results.length, total, query, roomId, userId, from, to, hasAttachment]);
+
+  return { results, total, isLoading, error, hasMore: results.length < total, loadMore, isActive };
+}
+
+export default useMessageSearch;
@@ -0,0 +1,208 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import useAuth from '../contexts/useAuth';
+import { RoomService } from '../services/room';
+import { socketService } from '../services/socket';
+import { getUserDisplayName } from '../utils/userUtils';
+import type { User } from '../contexts/authTypes';
+import type { RoomPresence } from '../services/room';
+import type { PresenceStatus, PresenceUpdateData, UserJoinedData, UserLeftData } from '../services/socket';
+
+/** How often our own presence is reported */
+const HEARTBEAT_INTERVAL = 30 * 1000;
+/** Inactivity after which we report ourselves as idle */
+const IDLE_AFTER = 2 * 60 * 1000;
+/** Members without a heartbeat for this long are shown as offline */
+const OFFLINE_AFTER = 90 * 1000;
+/** How often stale entries are re-evaluated (and the snapshot refetched when only watching) */
+const SWEEP_INTERVAL = 15 * 1000;
+
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'pointerdown', 'scroll', 'focus'] as const;
+
+const STATUS_ORDER: Record<PresenceStatus, number> = { online: 0, idle: 1, offline: 2 };
+
+export interface PresenceMember {
+  user: User;
+  status: PresenceStatus;
+  lastSeen?: string;
+}
+
+interface PresenceOptions {
+  /**
+   * Send heartbeats for the signed-in user; disable on pages that only watch a room
+   * (e.g. student management) so the viewer doesn't appear in the roster
+   */
+  announce?: boolean;
+}
+
+/**
+ * Resolve the effective status of an entry, expiring members whose heartbeat stopped
+ */
+const effectiveStatus = (entry: RoomPresence | undefined, now: number): PresenceStatus => {
+  if (!entry || entry.status === 'offline') return 'offline';
+  const lastSeen = new Date(entry.lastSeen).getTime();
+  if (isNaN(lastSeen) || now - lastSeen > OFFLINE_AFTER) return 'offline';
+  return entry.status;
+};
+
+/**
+ * Presence roster of a room
+ * Members come from the room details; their status is seeded from the REST snapshot and kept
+ * up to date with presence heartbeats and join/leave events.
+ */
+export function usePresence(
+  roomId: string | undefined,
+  { announce = true }: PresenceOptions = {}
+): {
+  members: PresenceMember[];
+  onlineCount: number;
+  statusOf: (userId: string) => PresenceStatus;
+  isLoading: boolean;
+  error: string | null;
+} {
+  const { user } = useAuth();
+  const userId = user ? String(user.id) : undefined;
+  const [roomUsers, setRoomUsers] = useState<User[]>([]);
+  const [presence, setPresence] = useState<Record<string, RoomPresence>>({});
+  const [now, setNow] = useState<number>(() => Date.now());
+  const [ownStatus, setOwnStatus] = useState<PresenceStatus>('online');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const lastActivity = useRef<number>(Date.now());
+
+  const updatePresence = useCallback((entry: RoomPresence) => {
+    setPresence(prev => ({ ...prev, [String(entry.userId)]: { ...entry, userId: String(entry.userId) } }));
+  }, []);
+
+  // Members and initial snapshot
+  useEffect(() => {
+    let cancelled = false;
+    setRoomUsers([]);
+    setPresence({});
+    if (!roomId) return;
+
+    const fetchRoster = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [roomDetails, snapshot] = await Promise.all([
+          RoomService.getRoom(roomId),
+          RoomService.getPresence(roomId),
+        ]);
+        if (cancelled) return;
+        setRoomUsers(roomDetails.users || []);
+        const entries: Record<string, RoomPresence> = {};
+        (snapshot || []).forEach(entry => {
+          entries[String(entry.userId)] = { ...entry, userId: String(entry.userId) };
+        });
+        setPresence(prev => ({ ...entries, ...prev }));
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load room members');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchRoster();
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId]);
+
+  // Live updates
+  useEffect(() => {
+    if (!roomId) return;
+
+    const handlePresenceUpdate = (data: PresenceUpdateData) => {
+      if (data.room_id !== roomId) return;
+      updatePresence({ userId: String(data.user_id), status: data.status, lastSeen: data.last_seen });
+    };
+    const handleUserJoined = (data: UserJoinedData) => {
+      updatePresence({ userId: String(data.user_id), status: 'online', lastSeen: new Date().toISOString() });
+    };
+    const handleUserLeft = (data: UserLeftData) => {
+      updatePresence({ userId: String(data.user_id), status: 'offline', lastSeen: new Date().toISOString() });
+    };
+
+    const release = socketService.acquire();
+    const unsubscribers = [
+      socketService.onPresenceUpdate(handlePresenceUpdate),
+      socketService.onUserJoined(handleUserJoined),
+      socketService.onUserLeft(handleUserLeft),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      release();
+    };
+  }, [roomId, updatePresence]);
+
+  // Expire stale entries; watchers aren't in the socket room, so they refresh the snapshot instead
+  useEffect(() => {
+    if (!roomId) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (!announce) {
+        RoomService.getPresence(roomId)
+          .then(snapshot => (snapshot || []).forEach(updatePresence))
+          .catch(err => console.error('Failed to refresh presence:', err));
+      }
+    }, SWEEP_INTERVAL);
+    return () => clearInterval(timer);
+  }, [roomId, announce, updatePresence]);
+
+  // Track our own activity to tell online from idle
+  useEffect(() => {
+    if (!announce) return;
+    const evaluate = () => {
+      const inactive = Date.now() - lastActivity.current > IDLE_AFTER;
+      setOwnStatus(document.visibilityState === 'hidden' || inactive ? 'idle' : 'online');
+    };
+    const handleActivity = () => {
+      lastActivity.current = Date.now();
+      evaluate();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', evaluate);
+    const timer = setInterval(evaluate, SWEEP_INTERVAL);
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', evaluate);
+      clearInterval(timer);
+    };
+  }, [announce]);
+
+  // Heartbeat immediately on status change and then periodically
+  useEffect(() => {
+    if (!announce || !roomId || !userId) return;
+    const beat = () => {
+      socketService.sendHeartbeat({ room_id: roomId, user_id: userId, status: ownStatus });
+      updatePresence({ userId, status: ownStatus, lastSeen: new Date().toISOString() });
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL);
+    return () => clearInterval(timer);
+  }, [announce, roomId, userId, ownStatus, updatePresence]);
+
+  const statusOf = useCallback(
+    (memberId: string) => effectiveStatus(presence[String(memberId)], now),
+    [presence, now]
+  );
+
+  const members = useMemo(() => roomUsers
+    .map(member => ({
+      user: member,
+      status: statusOf(String(member.id)),
+      lastSeen: presence[String(member.id)]?.lastSeen,
+    }))
+    .sort((a, b) => (
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || getUserDisplayName(a.user).localeCompare(getUserDisplayName(b.user))
+    )), [roomUsers, presence, statusOf]);
+
+  const onlineCount = useMemo(() => members.filter(m => m.status === 'online').length, [members]);
+
+  return { members, onlineCount, statusOf, isLoading, error };
+}
+
+export default usePresence;
@@ -2,6 +2,7 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import AppNavbar from '../app/components/appNavbar';
 import AppSidebar from '../app/components/appSidebar';
+import { useChatNotifications } from '../hooks/useChatNotifications';
 
 /**
  * Main application layout component for authenticated users
@@ -9,6 +10,8 @@ import AppSidebar from '../app/components/appSidebar';
  * Used for all protected routes within the /app path
  */
 const AppLayout: React.FC = () => {
+  useChatNotifications();
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Sidebar navigation - hidden on mobile, shown on desktop */}
@@ -17,6 +17,8 @@ import Dashboard from '../app/dashboard/dashboard';
 import Profile from '../app/profile/profile';
 import Rooms from '../app/rooms/rooms';
 import ChatRoom from '../app/chatRoom/chatRoom';
+import Messages from '../app/messages/messages';
+import Search from '../app/search/search';
 import AiAssistant from '../app/aiAssistant/asAssistant';
 import Settings from '../settings/settings';
 
@@ -110,10 +112,26 @@ export const router = createBrowserRouter([
         path: 'rooms/:roomId',
         element: <ChatRoom />
       },
+      {
+        path: 'messages',
+        element: <Messages />
+      },
+      {
+        path: 'messages/:conversationId',
+        element: <Messages />
+      },
+      {
+        path: 'search',
+        element: <Search />
+      },
       {
         path: 'ai-assistant',
         element: <AiAssistant />
       },
+      {
+        path: 'ai-assistant/:sessionId',
+        element: <AiAssistant />
+      },
       {
         path: 'settings',
         element: <Settings />
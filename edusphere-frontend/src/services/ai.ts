@@ -1,18 +1,179 @@
 /**
  * AI Assistant API service
- * Handles AI query processing and response management
+ * Handles AI query processing and response management. Answers can also be streamed token by
+ * token through a pluggable stream adapter. Queries are grouped into sessions, and follow-ups
+ * carry the session's earlier turns as context.
  */
 
-import api, { handleApiError } from './api';
-import type { AIQuery } from '../contexts/authTypes';
+import api, { getAuthToken, handleApiError, handleUnauthorized } from './api';
+import type { ApiError } from './api';
+import type { AIQuery, AISession } from '../contexts/authTypes';
 import type { AxiosError } from 'axios';
 
+/**
+ * An earlier question and answer of the same session
+ */
+export interface AIContextTurn {
+  query: string;
+  answer: string;
+}
+
 export interface AIQueryData {
   userId: string;
   query: string;
+  sessionId?: string;
+  /** Earlier turns of the session, oldest first */
+  context?: AIContextTurn[];
+}
+
+export interface CreateAISessionData {
+  userId: string;
+  title: string;
+  folder?: string | null;
+}
+
+export interface UpdateAISessionData {
+  title?: string;
+  folder?: string | null;
+  archived?: boolean;
+}
+
+/**
+ * Callbacks and cancellation for a streamed answer
+ */
+export interface AIStreamOptions {
+  /** Called with each piece of the answer as it arrives */
+  onToken: (token: string) => void;
+  /** Aborting stops the request; the returned promise rejects with an AbortError */
+  signal?: AbortSignal;
+}
+
+/**
+ * A transport for streamed answers
+ * Resolves with the stored query once the answer is complete.
+ */
+export interface AIStreamAdapter {
+  name: string;
+  stream: (queryData: AIQueryData, options: AIStreamOptions) => Promise<AIQuery>;
+}
+
+const abortError = (): DOMException => new DOMException('The request was aborted', 'AbortError');
+
+/**
+ * Split a server-sent event stream into events
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : blocks.pop() ?? '';
+      for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+        block.split(/\r?\n/).forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+        });
+        if (data.length) yield { event, data: data.join('\n') };
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
 }
 
+/**
+ * Streams from the backend as server-sent events: `data` events carry `{ token }`, followed by a
+ * `done` event with the stored query or an `error` event
+ */
+export const sseStreamAdapter: AIStreamAdapter = {
+  name: 'sse',
+  stream: async (queryData, { onToken, signal }) => {
+    const baseUrl = (api.defaults.baseURL || '').replace(/\/+$/, '');
+    // Same token and 401 handling as the axios instance
+    const token = getAuthToken();
+    const response = await fetch(`${baseUrl}/ai/query/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(queryData),
+      signal,
+    });
+    if (response.status === 401) handleUnauthorized();
+    if (!response.ok || !response.body) {
+      const body = await response.json().catch(() => null);
+      throw (body as ApiError | null) ?? {
+        statusCode: response.status,
+        message: response.statusText || 'Network error occurred',
+        error: 'Unknown Error',
+      };
+    }
+    for await (const { event, data } of readEventStream(response.body)) {
+      const payload = JSON.parse(data);
+      if (event === 'done') return payload as AIQuery;
+      if (event === 'error') throw payload as ApiError;
+      if (typeof payload.token === 'string') onToken(payload.token);
+    }
+    throw { statusCode: 502, message: 'The answer ended unexpectedly', error: 'Stream Error' } as ApiError;
+  },
+};
+
+/**
+ * Streams a canned answer locally, word by word, so the assistant can be used without a backend
+ */
+export const createMockStreamAdapter = (
+  { tokenDelay = 40, answer }: { tokenDelay?: number; answer?: (query: string) => string } = {}
+): AIStreamAdapter => ({
+  name: 'mock',
+  stream: async (queryData, { onToken, signal }) => {
+    const text = answer
+      ? answer(queryData.query)
+      : `This is a **mock answer** to:\n\n> ${queryData.query}\n\nThe AI backend isn't connected, so this reply was generated locally to exercise streaming. Set \`VITE_AI_MOCK_STREAM=false\` to use the real assistant.`;
+    const tokens = text.match(/\S+\s*|\s+/g) || [];
+    for (const token of tokens) {
+      if (signal?.aborted) throw abortError();
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          reject(abortError());
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, tokenDelay);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+      onToken(token);
+    }
+    const now = new Date().toISOString();
+    return {
+      id: `mock-${Date.now()}`,
+      query: queryData.query,
+      response: { answer: text },
+      userId: queryData.userId,
+      sessionId: queryData.sessionId,
+      createdAt: now,
+      updatedAt: now,
+    };
+  },
+});
+
+const DEFAULT_STREAM_ADAPTER: AIStreamAdapter = import.meta.env.VITE_AI_MOCK_STREAM === 'true'
+  ? createMockStreamAdapter()
+  : sseStreamAdapter;
+
 export class AIService {
+  private static streamAdapter: AIStreamAdapter = DEFAULT_STREAM_ADAPTER;
+
   /**
    * Submit AI query
    */
@@ -25,6 +186,27 @@ export class AIService {
     }
   }
 
+  /**
+   * Submit AI query and receive the answer incrementally
+   */
+  static streamQuery(queryData: AIQueryData, options: AIStreamOptions): Promise<AIQuery> {
+    return AIService.streamAdapter.stream(queryData, options);
+  }
+
+  /**
+   * Replace the stream transport, e.g. with a mock adapter in tests
+   */
+  static setStreamAdapter(adapter: AIStreamAdapter): void {
+    AIService.streamAdapter = adapter;
+  }
+
+  /**
+   * Restore the configured stream transport
+   */
+  static resetStreamAdapter(): void {
+    AIService.streamAdapter = DEFAULT_STREAM_ADAPTER;
+  }
+
   /**
    * Get AI queries (all queries)
    */
@@ -48,6 +230,65 @@ export class AIService {
       throw handleApiError(error as AxiosError);
     }
   }
+
+  /**
+   * Get user's AI sessions, archived ones included
+   */
+  static async getUserSessions(userId: string): Promise<AISession[]> {
+    try {
+      const response = await api.get(`/ai/users/${userId}/sessions`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Start a new AI session
+   */
+  static async createSession(sessionData: CreateAISessionData): Promise<AISession> {
+    try {
+      const response = await api.post('/ai/sessions', sessionData);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Rename, file or archive an AI session
+   */
+  static async updateSession(sessionId: string, sessionData: UpdateAISessionData): Promise<AISession> {
+    try {
+      const response = await api.patch(`/ai/sessions/${sessionId}`, sessionData);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Delete an AI session and its queries
+   */
+  static async deleteSession(sessionId: string): Promise<void> {
+    try {
+      await api.delete(`/ai/sessions/${sessionId}`);
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get the queries of an AI session
+   */
+  static async getSessionQueries(sessionId: string, skip: number = 0, take: number = 50): Promise<AIQuery[]> {
+    try {
+      const response = await api.get(`/ai/sessions/${sessionId}/queries?skip=${skip}&take=${take}`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
 }
 
-export default AIService;
\ No newline at end of file
+export default AIService;
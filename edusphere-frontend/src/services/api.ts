@@ -19,10 +19,25 @@ export const api: AxiosInstance = axios.create({
   },
 });
 
+/**
+ * The stored auth token, also used by requests made outside the axios instance (e.g. streams)
+ */
+export const getAuthToken = (): string | null => localStorage.getItem('edusphere_token');
+
+/**
+ * Clear the stored session after the server rejected its token
+ */
+export const handleUnauthorized = (): void => {
+  localStorage.removeItem('edusphere_token');
+  localStorage.removeItem('edusphere_user');
+  // Don't redirect here - let the AuthContext handle it
+  console.log('Token expired or invalid - clearing authentication');
+};
+
 // Request interceptor to add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('edusphere_token');
+    const token = getAuthToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -39,10 +54,7 @@ api.interceptors.response.use(
   (error: AxiosError) => {
     if (error.response?.status === 401) {
       // Token expired or invalid
-      localStorage.removeItem('edusphere_token');
-      localStorage.removeItem('edusphere_user');
-      // Don't redirect here - let the AuthContext handle it
-      console.log('Token expired or invalid - clearing authentication');
+      handleUnauthorized();
     }
     return Promise.reject(error);
   }
@@ -0,0 +1,133 @@
+/**
+ * Direct messages API service
+ * Handles one-to-one and small-group conversations. Every conversation is backed by a
+ * private room, so its messages use the regular room endpoints and socket events.
+ */
+
+import api, { handleApiError } from './api';
+import type { Message, User } from '../contexts/authTypes';
+import type { AxiosError } from 'axios';
+
+/** Largest number of people in a group conversation, including its creator */
+export const MAX_CONVERSATION_PARTICIPANTS = 8;
+
+export interface Conversation {
+  id: string;
+  /** Private room holding the conversation's messages */
+  roomId: string;
+  participants: User[];
+  /** Set for group conversations; one-to-one conversations are named after the other person */
+  name?: string;
+  lastMessage?: Message;
+  unreadCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateConversationData {
+  /** Other participants; an existing one-to-one conversation is returned instead of a duplicate */
+  participantIds: string[];
+  name?: string;
+}
+
+/**
+ * Who may start a direct conversation with the user
+ * Only students can restrict this; teachers and admins can always be reached.
+ */
+export const DirectMessagePolicy = {
+  EVERYONE: 'everyone',
+  TEACHERS_ONLY: 'teachers_only'
+} as const;
+
+export type DirectMessagePolicy = typeof DirectMessagePolicy[keyof typeof DirectMessagePolicy];
+
+export interface DirectMessagePrivacy {
+  allowFrom: DirectMessagePolicy;
+}
+
+export class DirectMessageService {
+  /**
+   * Get the user's conversations, most recently active first
+   */
+  static async getConversations(): Promise<Conversation[]> {
+    try {
+      const response = await api.get('/direct-messages/conversations');
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get a conversation by ID
+   */
+  static async getConversation(conversationId: string): Promise<Conversation> {
+    try {
+      const response = await api.get(`/direct-messages/conversations/${conversationId}`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Start a conversation; rejected when a participant's privacy settings don't allow it
+   */
+  static async createConversation(data: CreateConversationData): Promise<Conversation> {
+    try {
+      const response = await api.post('/direct-messages/conversations', data);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Reset the unread count of a conversation
+   */
+  static async markConversationRead(conversationId: string): Promise<void> {
+    try {
+      await api.post(`/direct-messages/conversations/${conversationId}/read`);
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Find people the user is allowed to message
+   */
+  static async searchContacts(search: string): Promise<User[]> {
+    try {
+      const response = await api.get('/direct-messages/contacts', { params: { search } });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get the user's direct message privacy settings
+   */
+  static async getPrivacy(): Promise<DirectMessagePrivacy> {
+    try {
+      const response = await api.get('/direct-messages/privacy');
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Update the user's direct message privacy settings
+   */
+  static async updatePrivacy(privacy: DirectMessagePrivacy): Promise<DirectMessagePrivacy> {
+    try {
+      const response = await api.put('/direct-messages/privacy', privacy);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+}
+
+export default DirectMessageService;
@@ -0,0 +1,180 @@
+/**
+ * Link preview service
+ * Resolves URLs posted in chat into Open Graph-style previews through a chain of
+ * pluggable resolvers. Results are cached per URL.
+ */
+
+import api, { handleApiError } from './api';
+import type { AxiosError } from 'axios';
+
+export interface LinkPreviewEmbed {
+  type: 'youtube' | 'video';
+  /** Player URL for youtube, file URL for video */
+  src: string;
+}
+
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+  embed?: LinkPreviewEmbed;
+}
+
+/**
+ * A source of link previews
+ * Resolvers are asked in order; the first one that can handle a URL produces its preview.
+ */
+export interface LinkPreviewResolver {
+  name: string;
+  canResolve: (url: URL) => boolean;
+  resolve: (url: URL) => Promise<LinkPreview | null>;
+}
+
+const YOUTUBE_HOSTS = ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be'];
+const VIDEO_EXTENSIONS = /\.(mp4|webm|ogg|mov)$/i;
+
+const getYouTubeId = (url: URL): string | null => {
+  if (url.hostname === 'youtu.be') return url.pathname.slice(1) || null;
+  if (url.pathname === '/watch') return url.searchParams.get('v');
+  const match = /^\/(?:embed|shorts|live)\/([\w-]+)/.exec(url.pathname);
+  return match ? match[1] : null;
+};
+
+/**
+ * YouTube links become embedded players; resolved locally without any request
+ */
+export const youTubeResolver: LinkPreviewResolver = {
+  name: 'youtube',
+  canResolve: url => YOUTUBE_HOSTS.includes(url.hostname) && !!getYouTubeId(url),
+  resolve: async url => {
+    const id = getYouTubeId(url);
+    if (!id) return null;
+    return {
+      url: url.href,
+      title: 'YouTube video',
+      siteName: 'YouTube',
+      imageUrl: `https://img.youtube.com/vi/${encodeURIComponent(id)}/hqdefault.jpg`,
+      embed: { type: 'youtube', src: `https://www.youtube-nocookie.com/embed/${encodeURIComponent(id)}` },
+    };
+  },
+};
+
+/**
+ * Direct links to video files play inline
+ */
+export const videoFileResolver: LinkPreviewResolver = {
+  name: 'video-file',
+  canResolve: url => VIDEO_EXTENSIONS.test(url.pathname),
+  resolve: async url => ({
+    url: url.href,
+    title: decodeURIComponent(url.pathname.split('/').pop() || url.hostname),
+    siteName: url.hostname,
+    embed: { type: 'video', src: url.href },
+  }),
+};
+
+/**
+ * Everything else is unfurled by the backend, which reads the page's Open Graph tags
+ * (browsers can't fetch arbitrary cross-origin pages)
+ */
+export const openGraphResolver: LinkPreviewResolver = {
+  name: 'open-graph',
+  canResolve: url => url.protocol === 'http:' || url.protocol === 'https:',
+  resolve: async url => {
+    try {
+      const response = await api.get('/link-preview', { params: { url: url.href } });
+      return response.data ? { ...response.data, url: url.href } : null;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+};
+
+/**
+ * Resolver answering from a fixed map of URL to preview, for tests and offline development
+ */
+export const createStaticResolver = (previews: Record<string, LinkPreview>): LinkPreviewResolver => ({
+  name: 'static',
+  canResolve: url => url.href in previews,
+  resolve: async url => previews[url.href] ?? null,
+});
+
+const DEFAULT_RESOLVERS: LinkPreviewResolver[] = [youTubeResolver, videoFileResolver, openGraphResolver];
+/** Previews kept in memory; the least recently used are dropped first */
+const MAX_CACHED_PREVIEWS = 200;
+
+export class LinkPreviewService {
+  private static resolvers: LinkPreviewResolver[] = DEFAULT_RESOLVERS;
+  // Promises are cached so concurrent renders of the same link share one request.
+  // Map iteration follows insertion order, so re-inserting on use makes it an LRU.
+  private static cache = new Map<string, Promise<LinkPreview | null>>();
+
+  /**
+   * Replace the resolver chain, e.g. with a static resolver in tests
+   */
+  static setResolvers(resolvers: LinkPreviewResolver[]): void {
+    LinkPreviewService.resolvers = resolvers;
+    LinkPreviewService.clearCache();
+  }
+
+  /**
+   * Restore the default resolver chain
+   */
+  static resetResolvers(): void {
+    LinkPreviewService.setResolvers(DEFAULT_RESOLVERS);
+  }
+
+  /**
+   * Forget all cached previews
+   */
+  static clearCache(): void {
+    LinkPreviewService.cache.clear();
+  }
+
+  /**
+   * Get the preview for a URL, or null when none of the resolvers can produce one
+   * Links no resolver can preview are cached as misses; failed lookups resolve to null and are
+   * dropped from the cache, so they're retried the next time the link is rendered.
+   */
+  static getPreview(rawUrl: string): Promise<LinkPreview | null> {
+    const { cache } = LinkPreviewService;
+    const cached = cache.get(rawUrl);
+    if (cached) {
+      cache.delete(rawUrl);
+      cache.set(rawUrl, cached);
+      return cached;
+    }
+
+    let failed = false;
+    const pending = (async () => {
+      let url: URL;
+      try {
+        url = new URL(rawUrl);
+      } catch {
+        return null;
+      }
+      const resolver = LinkPreviewService.resolvers.find(r => r.canResolve(url));
+      if (!resolver) return null;
+      try {
+        return await resolver.resolve(url);
+      } catch (error) {
+        console.error(`Link preview failed (${resolver.name}):`, error);
+        failed = true;
+        return null;
+      }
+    })();
+
+    cache.set(rawUrl, pending);
+    if (cache.size > MAX_CACHED_PREVIEWS) {
+      cache.delete(cache.keys().next().value as string);
+    }
+    pending.then(() => {
+      if (failed && cache.get(rawUrl) === pending) cache.delete(rawUrl);
+    });
+    return pending;
+  }
+}
+
+export default LinkPreviewService;
@@ -14,6 +14,25 @@ export interface MediaUploadData {
   roomId: string;
 }
 
+export interface MediaFileUploadData {
+  file: File;
+  userId: string;
+  roomId: string;
+}
+
+export interface RoomMediaFilters {
+  type?: MediaType;
+  /** Only media uploaded by this user */
+  userId?: string;
+}
+
+export interface MediaUploadOptions {
+  /** Called with the uploaded fraction, from 0 to 1 */
+  onProgress?: (progress: number) => void;
+  /** Aborts the upload */
+  signal?: AbortSignal;
+}
+
 export class MediaService {
   /**
    * Upload media
@@ -28,11 +47,41 @@ export class MediaService {
   }
 
   /**
-   * Get room media
+   * Upload a file as multipart form data
+   * The server stores the file and returns the created Media record
+   */
+  static async uploadFile(uploadData: MediaFileUploadData, options: MediaUploadOptions = {}): Promise<Media> {
+    const formData = new FormData();
+    formData.append('file', uploadData.file);
+    formData.append('userId', uploadData.userId);
+    formData.append('roomId', uploadData.roomId);
+    try {
+      const response = await api.post('/media/upload', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        // Large files can take longer than the default request timeout
+        timeout: 0,
+        signal: options.signal,
+        onUploadProgress: event => {
+          if (options.onProgress && event.total) {
+            options.onProgress(event.loaded / event.total);
+          }
+        },
+      });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get room media, newest first
    */
-  static async getRoomMedia(roomId: string, skip: number = 0, take: number = 50): Promise<Media[]> {
+  static async getRoomMedia(roomId: string, skip: number = 0, take: number = 50, filters: RoomMediaFilters = {}): Promise<Media[]> {
+    const params = new URLSearchParams({ skip: String(skip), take: String(take) });
+    if (filters.type) params.set('type', filters.type);
+    if (filters.userId) params.set('userId', filters.userId);
     try {
-      const response = await api.get(`/media/room/${roomId}?skip=${skip}&take=${take}`);
+      const response = await api.get(`/media/room/${roomId}?${params.toString()}`);
       return response.data;
     } catch (error: unknown) {
       throw handleApiError(error as AxiosError);
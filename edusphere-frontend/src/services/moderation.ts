@@ -0,0 +1,205 @@
+/**
+ * Room moderation API service
+ * Mutes, kicks and bans, the per-room log of moderator actions, and the review queue
+ * of messages flagged by the content filter
+ */
+
+import api, { handleApiError } from './api';
+import type { Message } from '../contexts/authTypes';
+import type { AxiosError } from 'axios';
+
+export const ModerationAction = {
+  DELETE_MESSAGE: 'delete_message',
+  MUTE: 'mute',
+  UNMUTE: 'unmute',
+  KICK: 'kick',
+  BAN: 'ban',
+  UNBAN: 'unban'
+} as const;
+
+export type ModerationAction = typeof ModerationAction[keyof typeof ModerationAction];
+
+export const RestrictionType = {
+  MUTE: 'mute',
+  BAN: 'ban'
+} as const;
+
+export type RestrictionType = typeof RestrictionType[keyof typeof RestrictionType];
+
+/**
+ * An active mute or ban of a member
+ */
+export interface RoomRestriction {
+  userId: string;
+  username: string;
+  type: RestrictionType;
+  reason?: string;
+  moderatorId: string;
+  createdAt: string;
+  /** Null for indefinite restrictions */
+  expiresAt: string | null;
+}
+
+/**
+ * One moderator action, as recorded in the room's moderation log
+ */
+export interface ModerationLogEntry {
+  id: string;
+  roomId: string;
+  action: ModerationAction;
+  moderatorId: string;
+  moderatorName: string;
+  targetUserId?: string;
+  targetUsername?: string;
+  messageId?: string;
+  /** Start of the deleted message, for delete actions */
+  messageExcerpt?: string;
+  reason?: string;
+  durationMinutes?: number;
+  createdAt: string;
+}
+
+export interface ModerationLogPage {
+  entries: ModerationLogEntry[];
+  total: number;
+}
+
+/**
+ * A message held for review by the content filter
+ */
+export interface FlaggedMessage {
+  id: string;
+  message: Message;
+  roomId: string;
+  roomName?: string;
+  /** The rule that flagged it, e.g. the blocked word found */
+  reason: string;
+  flaggedAt: string;
+}
+
+export interface FlaggedMessagePage {
+  flags: FlaggedMessage[];
+  total: number;
+}
+
+/** Keep the message, or delete it from its room */
+export type FlagResolution = 'approve' | 'remove';
+
+export interface ModerationActionData {
+  moderatorId: string;
+  reason?: string;
+}
+
+export interface MuteUserData extends ModerationActionData {
+  /** Omitted for an indefinite mute */
+  minutes?: number;
+}
+
+export class ModerationService {
+  /**
+   * Get the active mutes and bans of a room
+   * Members who can't moderate the room only get their own.
+   */
+  static async getRestrictions(roomId: string): Promise<RoomRestriction[]> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/moderation/restrictions`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Stop a member from posting in the room
+   */
+  static async muteUser(roomId: string, userId: string, data: MuteUserData): Promise<RoomRestriction> {
+    try {
+      const response = await api.post(`/rooms/${roomId}/moderation/mutes/${userId}`, data);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Lift a mute before it expires
+   */
+  static async unmuteUser(roomId: string, userId: string, data: ModerationActionData): Promise<void> {
+    try {
+      await api.delete(`/rooms/${roomId}/moderation/mutes/${userId}`, { data });
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Remove a member from the room; they may join again
+   */
+  static async kickUser(roomId: string, userId: string, data: ModerationActionData): Promise<void> {
+    try {
+      await api.post(`/rooms/${roomId}/moderation/kicks/${userId}`, data);
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Remove a member from the room and keep them from rejoining
+   */
+  static async banUser(roomId: string, userId: string, data: ModerationActionData): Promise<RoomRestriction> {
+    try {
+      const response = await api.post(`/rooms/${roomId}/moderation/bans/${userId}`, data);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Lift a ban
+   */
+  static async unbanUser(roomId: string, userId: string, data: ModerationActionData): Promise<void> {
+    try {
+      await api.delete(`/rooms/${roomId}/moderation/bans/${userId}`, { data });
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get the room's moderation log, newest first
+   */
+  static async getModerationLog(roomId: string, skip: number = 0, take: number = 25): Promise<ModerationLogPage> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/moderation/log`, { params: { skip, take } });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get messages awaiting review, oldest first
+   */
+  static async getFlaggedMessages(skip: number = 0, take: number = 20): Promise<FlaggedMessagePage> {
+    try {
+      const response = await api.get('/moderation/flags', { params: { skip, take } });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Close a review, keeping or removing the message
+   */
+  static async resolveFlag(flagId: string, resolution: FlagResolution, reviewerId: string): Promise<void> {
+    try {
+      await api.post(`/moderation/flags/${flagId}/resolve`, { resolution, reviewerId });
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+}
+
+export default ModerationService;
@@ -4,8 +4,9 @@
  */
 
 import api, { handleApiError } from './api';
-import type { Room, Message } from '../contexts/authTypes';
+import type { Room, Message, MessageMention, MessageType } from '../contexts/authTypes';
 import type { AxiosError } from 'axios';
+import type { PresenceStatus } from './socket';
 
 export interface CreateRoomData {
   name: string;
@@ -18,6 +19,28 @@ export interface CreateRoomData {
 export interface SendMessageData {
   content: string;
   userId: string;
+  parentId?: string;
+  mediaId?: string;
+  mentions?: MessageMention[];
+  type?: MessageType;
+  /** Lets the server drop a retry of a message it already stored, whichever transport sent it */
+  clientId?: string;
+  /** Queues the message for review; set by the content filter */
+  flagReason?: string;
+  /** The AI query an ASSISTANT message answers; the server checks the content against it */
+  aiQueryId?: string;
+}
+
+export interface EditMessageData {
+  content: string;
+  userId: string;
+  /** Queues the edited message for review; set by the content filter */
+  flagReason?: string;
+}
+
+export interface ReactionData {
+  emoji: string;
+  userId: string;
 }
 
 // Socket-related types should be defined in src/services/socket.ts
@@ -47,6 +70,53 @@ export interface RoomDetails extends Room {
   stats: RoomStats;
 }
 
+/**
+ * The latest message a member has read in a room
+ */
+export interface ReadReceipt {
+  userId: string;
+  username: string;
+  messageId: string;
+  readAt: string;
+}
+
+/**
+ * Last known presence of a room member
+ */
+export interface RoomPresence {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen: string;
+}
+
+/**
+ * Message search criteria; without roomId every room the user has joined is searched
+ */
+export interface MessageSearchFilters {
+  query: string;
+  roomId?: string;
+  /** Author */
+  userId?: string;
+  /** Inclusive date range (YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+  hasAttachment?: boolean;
+}
+
+export interface MessageSearchResults {
+  messages: Message[];
+  total: number;
+}
+
+/**
+ * A slice of history around a message, used to jump to results far back in a room
+ */
+export interface MessageWindow {
+  messages: Message[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
 export class RoomService {
   /**
    * Get all rooms
@@ -108,6 +178,41 @@ export class RoomService {
     }
   }
 
+  /**
+   * Get the messages before and after a given message, oldest first
+   */
+  static async getMessageWindow(
+    roomId: string,
+    messageId: string,
+    before: number = 25,
+    after: number = 25
+  ): Promise<MessageWindow> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/messages/${messageId}/window?before=${before}&after=${after}`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Full-text search over messages, newest matches first
+   */
+  static async searchMessages(filters: MessageSearchFilters, skip: number = 0, take: number = 20): Promise<MessageSearchResults> {
+    try {
+      const params = new URLSearchParams({ q: filters.query, skip: String(skip), take: String(take) });
+      if (filters.roomId) params.set('roomId', filters.roomId);
+      if (filters.userId) params.set('userId', filters.userId);
+      if (filters.from) params.set('from', filters.from);
+      if (filters.to) params.set('to', filters.to);
+      if (filters.hasAttachment) params.set('hasAttachment', 'true');
+      const response = await api.get(`/messages/search?${params.toString()}`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
   /**
    * Send message to room
    */
@@ -120,6 +225,127 @@ export class RoomService {
     }
   }
 
+  /**
+   * Get replies in a message thread
+   */
+  static async getThread(roomId: string, messageId: string): Promise<Message[]> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/messages/${messageId}/replies`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Edit a message in a room
+   */
+  static async editMessage(roomId: string, messageId: string, messageData: EditMessageData): Promise<Message> {
+    try {
+      const response = await api.patch(`/rooms/${roomId}/messages/${messageId}`, messageData);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Soft-delete a message in a room
+   * The backend keeps the record and sets deletedAt so clients can render a tombstone
+   */
+  static async deleteMessage(roomId: string, messageId: string): Promise<Message> {
+    try {
+      const response = await api.delete(`/rooms/${roomId}/messages/${messageId}`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Add a reaction to a message
+   */
+  static async addReaction(roomId: string, messageId: string, reactionData: ReactionData): Promise<Message> {
+    try {
+      const response = await api.post(`/rooms/${roomId}/messages/${messageId}/reactions`, reactionData);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Remove a reaction from a message
+   */
+  static async removeReaction(roomId: string, messageId: string, reactionData: ReactionData): Promise<Message> {
+    try {
+      const response = await api.delete(`/rooms/${roomId}/messages/${messageId}/reactions`, { data: reactionData });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get the pinned messages of a room, most recently pinned first
+   */
+  static async getPinnedMessages(roomId: string): Promise<Message[]> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/pins`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Pin a message to the top of the room
+   */
+  static async pinMessage(roomId: string, messageId: string, userId: string): Promise<Message> {
+    try {
+      const response = await api.post(`/rooms/${roomId}/messages/${messageId}/pin`, { userId });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Unpin a message
+   */
+  static async unpinMessage(roomId: string, messageId: string, userId: string): Promise<Message> {
+    try {
+      const response = await api.delete(`/rooms/${roomId}/messages/${messageId}/pin`, { data: { userId } });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get the last-read position of every member of a room
+   */
+  static async getReadReceipts(roomId: string): Promise<ReadReceipt[]> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/read-receipts`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get the presence of every member of a room
+   */
+  static async getPresence(roomId: string): Promise<RoomPresence[]> {
+    try {
+      const response = await api.get(`/rooms/${roomId}/presence`);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
   /**
    * Update room
    */
@@ -155,6 +381,18 @@ export class RoomService {
     }
   }
 
+  /**
+   * Enable or disable the @assistant bot in a room
+   */
+  static async setAssistantEnabled(roomId: string, enabled: boolean): Promise<Room> {
+    try {
+      const response = await api.patch(`/rooms/${roomId}/assistant`, { enabled });
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
   /**
    * Toggle room active status
    */
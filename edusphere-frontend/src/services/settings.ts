@@ -0,0 +1,126 @@
+/**
+ * Settings API service
+ * Handles platform settings managed by administrators
+ */
+
+import api, { handleApiError } from './api';
+import type { AxiosError } from 'axios';
+
+/**
+ * File storage and upload limits
+ */
+export interface StorageSettings {
+  /** Maximum upload size in MB */
+  maxFileSize: number;
+  /** Allowed file extensions, without the dot */
+  allowedFileTypes: string[];
+  /** Total storage quota in GB */
+  storageQuota: number;
+  backupFrequency: 'daily' | 'weekly' | 'monthly';
+  backupRetention: number;
+  cloudStorageEnabled: boolean;
+  cloudStorageProvider: 'aws' | 'gcp' | 'azure';
+}
+
+/**
+ * Used until the server settings have loaded, or when they can't be fetched
+ */
+export const DEFAULT_STORAGE_SETTINGS: StorageSettings = {
+  maxFileSize: 10,
+  allowedFileTypes: ['pdf', 'doc', 'docx', 'ppt', 'pptx', 'jpg', 'png', 'gif', 'mp4', 'webm'],
+  storageQuota: 100,
+  backupFrequency: 'daily',
+  backupRetention: 30,
+  cloudStorageEnabled: false,
+  cloudStorageProvider: 'aws',
+};
+
+/**
+ * Chat content-safety rules
+ * Checked in the composer for instant feedback and enforced again by the server.
+ */
+export interface ModerationSettings {
+  /** Words and phrases not allowed in chat, matched case-insensitively as whole words */
+  blockedWords: string[];
+  /** Reject messages containing a blocked word, or send them and queue them for review */
+  blockedWordAction: 'block' | 'flag';
+  rateLimitEnabled: boolean;
+  /** Messages a user may send per window */
+  rateLimitMessages: number;
+  /** Rate limit window in seconds */
+  rateLimitWindow: number;
+  /** Reject repeats of a message the user sent within the window */
+  duplicateDetection: boolean;
+  /** Duplicate detection window in seconds */
+  duplicateWindow: number;
+  linkFloodEnabled: boolean;
+  /** Links a user may post per window */
+  linkFloodLimit: number;
+  /** Link flood window in seconds */
+  linkFloodWindow: number;
+}
+
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettings = {
+  blockedWords: [],
+  blockedWordAction: 'block',
+  rateLimitEnabled: true,
+  rateLimitMessages: 10,
+  rateLimitWindow: 30,
+  duplicateDetection: true,
+  duplicateWindow: 60,
+  linkFloodEnabled: true,
+  linkFloodLimit: 5,
+  linkFloodWindow: 60,
+};
+
+export class SettingsService {
+  /**
+   * Get storage settings
+   */
+  static async getStorageSettings(): Promise<StorageSettings> {
+    try {
+      const response = await api.get('/settings/storage');
+      return { ...DEFAULT_STORAGE_SETTINGS, ...response.data };
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Update storage settings
+   */
+  static async updateStorageSettings(settings: StorageSettings): Promise<StorageSettings> {
+    try {
+      const response = await api.put('/settings/storage', settings);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Get chat moderation settings
+   */
+  static async getModerationSettings(): Promise<ModerationSettings> {
+    try {
+      const response = await api.get('/settings/moderation');
+      return { ...DEFAULT_MODERATION_SETTINGS, ...response.data };
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * Update chat moderation settings
+   */
+  static async updateModerationSettings(settings: ModerationSettings): Promise<ModerationSettings> {
+    try {
+      const response = await api.put('/settings/moderation', settings);
+      return response.data;
+    } catch (error: unknown) {
+      throw handleApiError(error as AxiosError);
+    }
+  }
+}
+
+export default SettingsService;
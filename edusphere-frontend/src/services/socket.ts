@@ -4,7 +4,7 @@
  */
 
 import { io, Socket } from 'socket.io-client';
-import type { User } from '../contexts/authTypes';
+import type { User, Media, MessageType } from '../contexts/authTypes';
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'ws://localhost:3001';
 
@@ -15,6 +15,20 @@ export interface SocketMessage {
   content: string;
   user: User;
   sent_at: string;
+  parent_id?: string;
+  client_id?: string;
+  media_id?: string;
+  media?: Media;
+  mentions?: SocketMention[];
+  type?: MessageType;
+  pinned_at?: string;
+  pinned_by?: string;
+}
+
+// A user @mentioned in a message; username is the handle as written in the content
+export interface SocketMention {
+  user_id: string;
+  username: string;
 }
 
 export interface JoinRoomData {
@@ -27,11 +41,26 @@ export interface LeaveRoomData {
   user_id: string;
 }
 
-// SendMessageData must include room_id, user_id, and content
+// SendMessageData must include room_id, user_id, and content; parent_id marks a thread reply,
+// media_id attaches an uploaded file and client_id is echoed back so optimistic messages can be reconciled
 export interface SendMessageData {
   room_id: string;
   user_id: string;
   content: string;
+  parent_id?: string;
+  client_id?: string;
+  media_id?: string;
+  mentions?: SocketMention[];
+  type?: MessageType;
+  // Set when the content filter lets the message through but queues it for review
+  flag_reason?: string;
+  // The AI query an ASSISTANT message answers; the server checks the content against it
+  ai_query_id?: string;
+}
+
+export interface SendMessageAck {
+  message?: SocketMessage;
+  error?: string;
 }
 
 export interface TypingData {
@@ -40,6 +69,12 @@ export interface TypingData {
   is_typing: boolean;
 }
 
+export interface MarkReadData {
+  room_id: string;
+  user_id: string;
+  message_id: string;
+}
+
 export interface GetRoomInfoData {
   room_id: string;
 }
@@ -64,6 +99,103 @@ export interface UserTypingData {
   is_typing: boolean;
 }
 
+export interface MessageEditedData {
+  id: string;
+  room_id: string;
+  content: string;
+  edited_at: string;
+}
+
+export interface MessageDeletedData {
+  id: string;
+  room_id: string;
+  deleted_at: string;
+}
+
+export interface MessageReactionData {
+  message_id: string;
+  room_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+// pinned_at and pinned_by are null once a message is unpinned
+export interface MessagePinData {
+  message_id: string;
+  room_id: string;
+  pinned_at: string | null;
+  pinned_by: string | null;
+}
+
+// muted_until is null for an indefinite mute
+export interface UserMutedData {
+  room_id: string;
+  user_id: string;
+  moderator_id: string;
+  reason?: string;
+  muted_until: string | null;
+}
+
+export interface UserUnmutedData {
+  room_id: string;
+  user_id: string;
+}
+
+// Kicked users may rejoin; banned users may not until the ban is lifted
+export interface UserRemovedData {
+  room_id: string;
+  user_id: string;
+  moderator_id: string;
+  reason?: string;
+  banned: boolean;
+}
+
+// Sent to every participant of a direct conversation when a message is posted in it
+export interface ConversationUpdatedData {
+  conversation_id: string;
+  room_id: string;
+  message: SocketMessage;
+  unread_count: number;
+}
+
+// Sent to every member of the room, whether or not they are in it
+export interface AnnouncementData {
+  room_id: string;
+  room_name?: string;
+  message: SocketMessage;
+}
+
+export interface ReadReceiptData {
+  room_id: string;
+  user_id: string;
+  username: string;
+  message_id: string;
+  read_at: string;
+}
+
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+// Sent periodically while a room is open; status is 'idle' when the user is inactive or the tab is hidden
+export interface PresenceHeartbeatData {
+  room_id: string;
+  user_id: string;
+  status: PresenceStatus;
+}
+
+export interface PresenceUpdateData {
+  room_id: string;
+  user_id: string;
+  status: PresenceStatus;
+  last_seen: string;
+}
+
+// Sent only to the mentioned user, whether or not they are in the room
+export interface MentionData {
+  room_id: string;
+  room_name?: string;
+  message: SocketMessage;
+}
+
 export interface RoomInfoData {
   room: {
     id: string;
@@ -75,68 +207,223 @@ export interface RoomInfoData {
   };
 }
 
+// Sent to the members of a room when its settings change
+export interface RoomUpdatedData {
+  room_id: string;
+  name?: string;
+  assistant_enabled?: boolean;
+}
+
 export interface SocketError {
   message: string;
 }
 
+/**
+ * Events the server pushes to the client, with their payloads
+ */
+export interface ServerEvents {
+  'connect': () => void;
+  'joined-room': (data: unknown) => void;
+  'user-joined': (data: UserJoinedData) => void;
+  'user-left': (data: UserLeftData) => void;
+  'new-message': (data: SocketMessage) => void;
+  'message-edited': (data: MessageEditedData) => void;
+  'message-deleted': (data: MessageDeletedData) => void;
+  'reaction-added': (data: MessageReactionData) => void;
+  'reaction-removed': (data: MessageReactionData) => void;
+  'read-receipt': (data: ReadReceiptData) => void;
+  'message-pinned': (data: MessagePinData) => void;
+  'message-unpinned': (data: MessagePinData) => void;
+  'announcement': (data: AnnouncementData) => void;
+  'user-muted': (data: UserMutedData) => void;
+  'user-unmuted': (data: UserUnmutedData) => void;
+  'user-removed': (data: UserRemovedData) => void;
+  'conversation-updated': (data: ConversationUpdatedData) => void;
+  'presence-update': (data: PresenceUpdateData) => void;
+  'user-typing': (data: UserTypingData) => void;
+  'room-info': (data: RoomInfoData) => void;
+  'room-updated': (data: RoomUpdatedData) => void;
+  'mention': (data: MentionData) => void;
+  'error': (data: SocketError) => void;
+}
+
+/**
+ * Lifecycle of the shared connection
+ * - idle: nobody needs the socket
+ * - connecting: first handshake in progress
+ * - connected: handshake done, events flowing
+ * - reconnecting: connection dropped and automatic retries are running
+ * - offline: retries exhausted, handshake rejected, or the browser is offline
+ */
+export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'offline';
+
+type Listener = (...args: unknown[]) => void;
+
+/** Keep the socket open briefly after the last consumer releases it, e.g. while switching rooms */
+const RELEASE_GRACE_PERIOD = 2000;
+
+const readToken = (): string | null => localStorage.getItem('edusphere_token');
+
 export class SocketService {
   private socket: Socket | null = null;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private ackTimeout = 10000;
+  private refCount = 0;
+  private releaseTimer: ReturnType<typeof setTimeout> | null = null;
+  // Token used for the last handshake, to tell a stale rejection from a retry-worthy one
+  private handshakeToken: string | null = null;
+  private state: ConnectionState = 'idle';
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  // Subscriptions survive socket re-creation; they're attached to every new socket
+  private listeners = new Map<string, Set<Listener>>();
+  // Rooms to re-join whenever the connection is (re)established
+  private joinedRooms = new Map<string, JoinRoomData>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        if (this.state === 'offline' && this.refCount > 0) {
+          this.socket?.connect();
+          this.setState('reconnecting');
+        }
+      });
+      window.addEventListener('offline', () => {
+        if (this.refCount > 0) this.setState('offline');
+      });
+    }
+  }
 
   /**
-   * Connect to WebSocket server
+   * Start using the shared connection
+   * The socket is created on first use and closed shortly after the last consumer releases it.
+   * Returns the release function; calling it more than once has no effect.
    */
-  connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.socket = io(SOCKET_URL, {
-          autoConnect: true,
-          reconnection: true,
-          reconnectionAttempts: this.maxReconnectAttempts,
-          reconnectionDelay: this.reconnectDelay,
-        });
+  acquire(): () => void {
+    this.refCount++;
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+    if (!this.socket) {
+      this.createSocket();
+    } else if (!this.socket.connected && !this.socket.active) {
+      this.setState('connecting');
+      this.socket.connect();
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.refCount = Math.max(0, this.refCount - 1);
+      if (this.refCount === 0) {
+        this.releaseTimer = setTimeout(() => {
+          this.releaseTimer = null;
+          if (this.refCount === 0) this.disconnect();
+        }, RELEASE_GRACE_PERIOD);
+      }
+    };
+  }
 
-        this.socket.on('connect', () => {
-          console.log('Connected to WebSocket server');
-          resolve();
-        });
+  private createSocket(): void {
+    const socket = io(SOCKET_URL, {
+      autoConnect: true,
+      reconnection: true,
+      reconnectionAttempts: this.maxReconnectAttempts,
+      reconnectionDelay: this.reconnectDelay,
+      // Evaluated on every (re)connect so a refreshed token is always used
+      auth: (cb) => {
+        this.handshakeToken = readToken();
+        cb({ token: this.handshakeToken });
+      },
+    });
+    this.socket = socket;
+    this.setState('connecting');
 
-        this.socket.on('connect_error', (error) => {
-          console.error('WebSocket connection error:', error);
-          reject(error);
-        });
+    socket.on('connect', () => {
+      console.log('Connected to WebSocket server');
+      this.setState('connected');
+      this.joinedRooms.forEach(data => socket.emit('join-room', data));
+    });
 
-        this.socket.on('disconnect', (reason) => {
-          console.log('Disconnected from WebSocket server:', reason);
-        });
+    socket.on('connect_error', (error) => {
+      console.error('WebSocket connection error:', error);
+      if (socket.active) {
+        // Still retrying on its own
+        this.setState('reconnecting');
+        return;
+      }
+      // The server rejected the handshake (e.g. expired token); retry once a newer token is stored
+      const token = readToken();
+      if (token && token !== this.handshakeToken) {
+        socket.connect();
+      } else {
+        this.setState('offline');
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('Disconnected from WebSocket server:', reason);
+      if (this.socket !== socket) return;
+      this.setState(socket.active ? 'reconnecting' : 'offline');
+    });
 
-        this.socket.on('reconnect', (attemptNumber) => {
-          console.log(`Reconnected to WebSocket server (attempt ${attemptNumber})`);
-        });
+    socket.io.on('reconnect', (attemptNumber) => {
+      console.log(`Reconnected to WebSocket server (attempt ${attemptNumber})`);
+    });
 
-        this.socket.on('reconnect_error', (error) => {
-          console.error('WebSocket reconnection error:', error);
-        });
+    socket.io.on('reconnect_error', (error) => {
+      console.error('WebSocket reconnection error:', error);
+    });
 
-        this.socket.on('reconnect_failed', () => {
-          console.error('WebSocket reconnection failed');
-        });
+    socket.io.on('reconnect_failed', () => {
+      console.error('WebSocket reconnection failed');
+      this.setState('offline');
+    });
 
-      } catch (error) {
-        reject(error);
-      }
+    this.listeners.forEach((handlers, event) => {
+      handlers.forEach(handler => socket.on(event, handler));
     });
   }
 
+  /**
+   * Re-run the handshake after the stored token changed (login, refresh or logout)
+   */
+  refreshAuth(token: string | null): void {
+    if (!this.socket || token === this.handshakeToken) return;
+    if (!token) {
+      this.disconnect();
+      return;
+    }
+    this.setState('connecting');
+    this.socket.disconnect().connect();
+  }
+
+  /**
+   * Retry right away after the connection was given up
+   */
+  reconnect(): void {
+    if (!this.socket || this.socket.connected) return;
+    this.setState('connecting');
+    this.socket.connect();
+  }
+
   /**
    * Disconnect from WebSocket server
    */
   disconnect(): void {
+    if (this.releaseTimer) {
+      clearTimeout(this.releaseTimer);
+      this.releaseTimer = null;
+    }
     if (this.socket) {
-      this.socket.disconnect();
+      const socket = this.socket;
       this.socket = null;
+      socket.disconnect();
     }
+    this.joinedRooms.clear();
+    this.setState('idle');
   }
 
   /**
@@ -146,11 +433,50 @@ export class SocketService {
     return this.socket?.connected || false;
   }
 
+  /**
+   * Current connection state
+   */
+  getConnectionState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Listen for connection state changes
+   * Returns a function that removes the listener
+   */
+  onConnectionStateChange(listener: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  /**
+   * Subscribe to a server event
+   * The subscription is kept across reconnects; returns a function that removes it
+   */
+  on<E extends keyof ServerEvents>(event: E, handler: ServerEvents[E]): () => void {
+    const listener = handler as unknown as Listener;
+    const handlers = this.listeners.get(event) ?? new Set<Listener>();
+    handlers.add(listener);
+    this.listeners.set(event, handlers);
+    this.socket?.on(event as string, listener);
+    return () => this.off(event, handler);
+  }
+
   /**
    * Join a room
+   * The room is re-joined automatically after reconnecting
    */
   joinRoom(data: JoinRoomData): void {
-    if (this.socket) {
+    this.joinedRooms.set(data.room_id, data);
+    if (this.socket?.connected) {
       this.socket.emit('join-room', data);
     }
   }
@@ -159,26 +485,53 @@ export class SocketService {
    * Leave a room
    */
   leaveRoom(data: LeaveRoomData): void {
-    if (this.socket) {
+    this.joinedRooms.delete(data.room_id);
+    if (this.socket?.connected) {
       this.socket.emit('leave-room', data);
     }
   }
 
   /**
-   * Send message
+   * Send message and wait for the server acknowledgement
+   * Rejects when not connected, on timeout, or when the server reports an error
    */
-  sendMessage(data: SendMessageData): void {
-    if (this.socket) {
-      this.socket.emit('send-message', data);
+  async sendMessage(data: SendMessageData): Promise<SocketMessage | undefined> {
+    if (!this.socket?.connected) {
+      throw new Error('Not connected to chat server');
     }
+    const ack: SendMessageAck | undefined = await this.socket.timeout(this.ackTimeout).emitWithAck('send-message', data);
+    if (ack?.error) {
+      throw new Error(ack.error);
+    }
+    return ack?.message;
   }
 
   /**
    * Send typing indicator
+   * Dropped rather than buffered while disconnected
    */
   sendTyping(data: TypingData): void {
     if (this.socket) {
-      this.socket.emit('typing', data);
+      this.socket.volatile.emit('typing', data);
+    }
+  }
+
+  /**
+   * Mark messages up to and including message_id as read
+   */
+  markRead(data: MarkReadData): void {
+    if (this.socket) {
+      this.socket.emit('mark-read', data);
+    }
+  }
+
+  /**
+   * Report this user's presence in a room
+   * Dropped rather than buffered while disconnected
+   */
+  sendHeartbeat(data: PresenceHeartbeatData): void {
+    if (this.socket) {
+      this.socket.volatile.emit('presence-heartbeat', data);
     }
   }
 
@@ -191,88 +544,193 @@ export class SocketService {
     }
   }
 
+  /**
+   * Listen for (re)connection to the server
+   */
+  onConnect(callback: () => void): () => void {
+    return this.on('connect', callback);
+  }
+
   /**
    * Listen for room joined event
    */
-  onJoinedRoom(callback: (data: unknown) => void): void {
-    if (this.socket) {
-      this.socket.on('joined-room', callback);
-    }
+  onJoinedRoom(callback: (data: unknown) => void): () => void {
+    return this.on('joined-room', callback);
   }
 
   /**
    * Listen for user joined event
    */
-  onUserJoined(callback: (data: UserJoinedData) => void): void {
-    if (this.socket) {
-      this.socket.on('user-joined', callback);
-    }
+  onUserJoined(callback: (data: UserJoinedData) => void): () => void {
+    return this.on('user-joined', callback);
   }
 
   /**
    * Listen for user left event
    */
-  onUserLeft(callback: (data: UserLeftData) => void): void {
-    if (this.socket) {
-      this.socket.on('user-left', callback);
-    }
+  onUserLeft(callback: (data: UserLeftData) => void): () => void {
+    return this.on('user-left', callback);
   }
 
   /**
    * Listen for new message event
    */
-  onNewMessage(callback: (data: SocketMessage) => void): void {
-    if (this.socket) {
-      this.socket.on('new-message', callback);
-    }
+  onNewMessage(callback: (data: SocketMessage) => void): () => void {
+    return this.on('new-message', callback);
+  }
+
+  /**
+   * Listen for message edited event
+   */
+  onMessageEdited(callback: (data: MessageEditedData) => void): () => void {
+    return this.on('message-edited', callback);
+  }
+
+  /**
+   * Listen for message deleted event
+   */
+  onMessageDeleted(callback: (data: MessageDeletedData) => void): () => void {
+    return this.on('message-deleted', callback);
+  }
+
+  /**
+   * Listen for reaction added event
+   */
+  onReactionAdded(callback: (data: MessageReactionData) => void): () => void {
+    return this.on('reaction-added', callback);
+  }
+
+  /**
+   * Listen for reaction removed event
+   */
+  onReactionRemoved(callback: (data: MessageReactionData) => void): () => void {
+    return this.on('reaction-removed', callback);
+  }
+
+  /**
+   * Listen for read receipt event
+   */
+  onReadReceipt(callback: (data: ReadReceiptData) => void): () => void {
+    return this.on('read-receipt', callback);
+  }
+
+  /**
+   * Listen for presence changes of room members
+   */
+  onPresenceUpdate(callback: (data: PresenceUpdateData) => void): () => void {
+    return this.on('presence-update', callback);
   }
 
   /**
    * Listen for user typing event
    */
-  onUserTyping(callback: (data: UserTypingData) => void): void {
-    if (this.socket) {
-      this.socket.on('user-typing', callback);
-    }
+  onUserTyping(callback: (data: UserTypingData) => void): () => void {
+    return this.on('user-typing', callback);
   }
 
   /**
    * Listen for room info event
    */
-  onRoomInfo(callback: (data: RoomInfoData) => void): void {
-    if (this.socket) {
-      this.socket.on('room-info', callback);
-    }
+  onRoomInfo(callback: (data: RoomInfoData) => void): () => void {
+    return this.on('room-info', callback);
+  }
+
+  /**
+   * Listen for setting changes of the joined rooms
+   */
+  onRoomUpdated(callback: (data: RoomUpdatedData) => void): () => void {
+    return this.on('room-updated', callback);
+  }
+
+  /**
+   * Listen for message pinned event
+   */
+  onMessagePinned(callback: (data: MessagePinData) => void): () => void {
+    return this.on('message-pinned', callback);
+  }
+
+  /**
+   * Listen for message unpinned event
+   */
+  onMessageUnpinned(callback: (data: MessagePinData) => void): () => void {
+    return this.on('message-unpinned', callback);
+  }
+
+  /**
+   * Listen for announcements in any of the user's rooms
+   */
+  onAnnouncement(callback: (data: AnnouncementData) => void): () => void {
+    return this.on('announcement', callback);
+  }
+
+  /**
+   * Listen for members being muted in the joined rooms
+   */
+  onUserMuted(callback: (data: UserMutedData) => void): () => void {
+    return this.on('user-muted', callback);
+  }
+
+  /**
+   * Listen for mutes being lifted in the joined rooms
+   */
+  onUserUnmuted(callback: (data: UserUnmutedData) => void): () => void {
+    return this.on('user-unmuted', callback);
+  }
+
+  /**
+   * Listen for members being kicked or banned from the joined rooms
+   */
+  onUserRemoved(callback: (data: UserRemovedData) => void): () => void {
+    return this.on('user-removed', callback);
+  }
+
+  /**
+   * Listen for activity in the user's direct conversations
+   */
+  onConversationUpdated(callback: (data: ConversationUpdatedData) => void): () => void {
+    return this.on('conversation-updated', callback);
+  }
+
+  /**
+   * Listen for mentions of the signed-in user in any room
+   */
+  onMention(callback: (data: MentionData) => void): () => void {
+    return this.on('mention', callback);
   }
 
   /**
    * Listen for error event
    */
-  onError(callback: (data: SocketError) => void): void {
-    if (this.socket) {
-      this.socket.on('error', callback);
-    }
+  onError(callback: (data: SocketError) => void): () => void {
+    return this.on('error', callback);
   }
 
   /**
    * Remove event listeners
+   * Without a handler, every subscription to the event is removed
    */
-  off(event: string, callback?: ((...args: unknown[]) => void) | undefined): void {
-    if (this.socket) {
-      this.socket.off(event, callback);
-    }
+  off<E extends keyof ServerEvents>(event: E, handler?: ServerEvents[E]): void {
+    const handlers = this.listeners.get(event);
+    if (!handlers) return;
+    const removed = handler ? [handler as unknown as Listener] : [...handlers];
+    removed.forEach(listener => {
+      handlers.delete(listener);
+      this.socket?.off(event as string, listener);
+    });
+    if (!handlers.size) this.listeners.delete(event);
   }
 
   /**
    * Remove all event listeners
    */
   removeAllListeners(): void {
-    if (this.socket) {
-      this.socket.removeAllListeners();
-    }
+    this.listeners.forEach((handlers, event) => {
+      handlers.forEach(listener => this.socket?.off(event, listener));
+    });
+    this.listeners.clear();
   }
 }
 
 // Export singleton instance
 export const socketService = new SocketService();
-export default socketService;
\ No newline at end of file
+export default socketService;
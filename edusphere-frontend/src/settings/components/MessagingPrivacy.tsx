@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from "react";
+import { DirectMessagePolicy, DirectMessageService } from "../../services/directMessages";
+
+/**
+ * Who may send the user direct messages
+ */
+const MessagingPrivacy: React.FC = () => {
+  const [allowFrom, setAllowFrom] = useState<DirectMessagePolicy>(DirectMessagePolicy.EVERYONE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [success, setSuccess] = useState("");
+
+  useEffect(() => {
+    DirectMessageService.getPrivacy()
+      .then(privacy => setAllowFrom(privacy.allowFrom))
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load messaging privacy"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const previous = allowFrom;
+    const next = e.target.value as DirectMessagePolicy;
+    setAllowFrom(next);
+    setSaving(true);
+    setError("");
+    setSuccess("");
+    try {
+      await DirectMessageService.updatePrivacy({ allowFrom: next });
+      setSuccess("Messaging privacy updated.");
+    } catch (err) {
+      setAllowFrom(previous);
+      setError(err instanceof Error ? err.message : "Failed to update messaging privacy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mt-6">
+      <h2 className="text-lg font-semibold mb-2">Messaging Privacy</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Choose who can start a direct conversation with you. Teachers and admins can always message you.
+      </p>
+      {error && <div className="text-red-500 text-sm mb-2">{error}</div>}
+      {success && <div className="text-green-600 text-sm mb-2">{success}</div>}
+      <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="allowFrom">
+        Who can message me
+      </label>
+      <select
+        id="allowFrom"
+        value={allowFrom}
+        onChange={handleChange}
+        disabled={loading || saving}
+        className="w-full border border-gray-300 rounded px-3 py-2 disabled:bg-gray-100"
+      >
+        <option value={DirectMessagePolicy.EVERYONE}>Everyone</option>
+        <option value={DirectMessagePolicy.TEACHERS_ONLY}>Teachers only</option>
+      </select>
+    </div>
+  );
+};
+
+export default MessagingPrivacy;
@@ -1,9 +1,11 @@
 import React, { useEffect, useState } from "react";
 import { AuthService } from "../services/auth";
 import useAuth from "../contexts/useAuth";
+import { UserRole } from "../contexts/authTypes";
+import MessagingPrivacy from "./components/MessagingPrivacy";
 
 const Settings: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
   const [form, setForm] = useState(() => ({
     firstName: user?.firstName || "",
     lastName: user?.lastName || "",
@@ -212,6 +214,7 @@ const Settings: React.FC = () => {
           </form>
         )}
       </div>
+      {hasRole(UserRole.STUDENT) && <MessagingPrivacy />}
     </div>
   );
 };
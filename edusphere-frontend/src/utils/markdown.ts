@@ -0,0 +1,145 @@
+/**
+ * Markdown rendering for chat messages
+ * Supports GitHub-flavoured Markdown, fenced code with syntax highlighting and LaTeX math
+ * ($inline$ and $$block$$). Output is always sanitised before it reaches the DOM.
+ */
+
+import { Marked } from 'marked';
+import type { TokenizerAndRendererExtension } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/common';
+import katex from 'katex';
+import type { MessageMention } from '../contexts/authTypes';
+
+export interface MarkdownOptions {
+  /** Mention tokens stored with the message; only these @handles are highlighted */
+  mentions?: MessageMention[];
+  /** Mentions of this user get the stronger "it's me" highlight */
+  currentUserId?: string;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderMath = (tex: string, displayMode: boolean): string =>
+  katex.renderToString(tex, { displayMode, throwOnError: false });
+
+const blockMath: TokenizerAndRendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: (src: string) => src.match(/\$\$/)?.index,
+  tokenizer(src: string) {
+    const match = /^\$\$([\s\S]+?)\$\$(?:\n|$)/.exec(src);
+    if (match) {
+      return { type: 'blockMath', raw: match[0], text: match[1].trim() };
+    }
+    return undefined;
+  },
+  renderer: token => `<div class="math-block">${renderMath(token.text, true)}</div>`,
+};
+
+// A closing $ followed by a digit is treated as a price, not math: "$5 and $10"
+const inlineMath: TokenizerAndRendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: (src: string) => src.match(/\$/)?.index,
+  tokenizer(src: string) {
+    const match = /^\$(?![\s$])((?:\\\$|[^$\n])+?)(?<!\s)\$(?!\d)/.exec(src);
+    if (match) {
+      return { type: 'inlineMath', raw: match[0], text: match[1] };
+    }
+    return undefined;
+  },
+  renderer: token => renderMath(token.text, false),
+};
+
+// Parsing is synchronous, so the mentions of the message being rendered can be handed to the
+// extension through module state
+let activeMentions = new Map<string, MessageMention>();
+let activeUserId: string | undefined;
+
+const mention: TokenizerAndRendererExtension = {
+  name: 'mention',
+  level: 'inline',
+  start: (src: string) => (activeMentions.size ? src.match(/@/)?.index : undefined),
+  tokenizer(src: string) {
+    const match = /^@([\w-]+(?:\.[\w-]+)*)/.exec(src);
+    const found = match && activeMentions.get(match[1].toLowerCase());
+    if (match && found) {
+      return { type: 'mention', raw: match[0], text: match[1], userId: found.userId };
+    }
+    return undefined;
+  },
+  renderer: token => {
+    const isSelf = !!activeUserId && token.userId === activeUserId;
+    return `<span class="mention${isSelf ? ' mention-self' : ''}" data-user-id="${escapeHtml(token.userId)}">@${escapeHtml(token.text)}</span>`;
+  },
+};
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  extensions: [blockMath, inlineMath, mention],
+  renderer: {
+    code({ text, lang }) {
+      const language = lang?.trim().split(/\s+/)[0];
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language }).value
+        : hljs.highlightAuto(text).value;
+      const label = language ? ` language-${escapeHtml(language)}` : '';
+      return `<pre><code class="hljs${label}">${highlighted}</code></pre>`;
+    },
+    // Raw HTML typed into a message is shown as text rather than interpreted
+    html({ text }) {
+      return escapeHtml(text);
+    },
+  },
+});
+
+// Links always open in a new tab without access to this window
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+/** Rendered messages are cached because virtualized rows remount while scrolling */
+const CACHE_LIMIT = 500;
+const cache = new Map<string, string>();
+
+/**
+ * Render message content to sanitised HTML
+ */
+export const renderMarkdown = (content: string, { mentions, currentUserId }: MarkdownOptions = {}): string => {
+  const cacheKey = mentions?.length
+    ? `${content}\u0000${mentions.map(m => `${m.userId}:${m.username}`).join(',')}\u0000${currentUserId ?? ''}`
+    : content;
+  const cached = cache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let html: string;
+  activeMentions = new Map((mentions || []).map(m => [m.username.toLowerCase(), m]));
+  activeUserId = currentUserId;
+  try {
+    html = DOMPurify.sanitize(markdown.parse(content, { async: false }));
+  } catch (error) {
+    console.error('Failed to render message markdown:', error);
+    html = escapeHtml(content);
+  } finally {
+    activeMentions = new Map();
+    activeUserId = undefined;
+  }
+
+  if (cache.size >= CACHE_LIMIT) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  cache.set(cacheKey, html);
+  return html;
+};
@@ -0,0 +1,131 @@
+/**
+ * Message list benchmark utilities
+ * Use these functions from the browser console to check chat rendering performance.
+ * With the dev server running, load them with `await import('/src/utils/messageListBenchmark.ts')`
+ * and run `await benchmarkMessageList.run(10000)`.
+ */
+
+import { createElement } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import MessageList from '../app/chatRoom/components/MessageList';
+import { buildMessageRows } from '../app/chatRoom/utils/messageRows';
+import type { Message } from '../contexts/authTypes';
+
+export interface MessageListBenchmarkResult {
+  messageCount: number;
+  groupingMs: number;
+  /** From the first render until the viewport is measured and its rows are laid out */
+  renderMs: number;
+  mountedRows: number;
+  scrollSteps: number;
+  /** Re-render time per scroll step */
+  avgScrollMs: number;
+  maxScrollMs: number;
+  /** Most rows mounted at any point while scrolling */
+  maxMountedRows: number;
+}
+
+/** Resolve on the next animation frame, after the browser has laid out and painted */
+const nextFrame = (): Promise<number> => new Promise(resolve => requestAnimationFrame(resolve));
+
+export class MessageListBenchmark {
+  /**
+   * Generate fake messages spread over the past days, oldest first
+   */
+  static generateMessages(count: number): Message[] {
+    const now = Date.now();
+    const spacing = 60 * 1000;
+    return Array.from({ length: count }, (_, i) => {
+      const userId = String(i % 25);
+      return {
+        id: `bench-${i}`,
+        room_id: 'bench-room',
+        user_id: userId,
+        // Vary content length so rows have different heights
+        content: `Message ${i} `.repeat((i % 7) + 1),
+        sent_at: new Date(now - (count - i) * spacing).toISOString(),
+        user: { id: userId, username: `student${userId}` },
+      };
+    });
+  }
+
+  /**
+   * Render the virtualized list with the given number of messages, let it lay out, then
+   * scroll it from top to bottom and report timings
+   */
+  static async run(messageCount: number = 10000, scrollSteps: number = 50): Promise<MessageListBenchmarkResult> {
+    console.log(`Benchmarking MessageList with ${messageCount} messages...`);
+    const messages = MessageListBenchmark.generateMessages(messageCount);
+
+    const groupingStart = performance.now();
+    buildMessageRows(messages);
+    const groupingMs = performance.now() - groupingStart;
+
+    // On screen but out of sight, so the list gets a real viewport height
+    const container = document.createElement('div');
+    container.style.cssText = 'position:fixed;left:-10000px;top:0;width:600px;height:384px;';
+    document.body.appendChild(container);
+    const root = createRoot(container);
+    const countRows = () => container.querySelectorAll('li[data-key]').length;
+
+    try {
+      const renderStart = performance.now();
+      flushSync(() => {
+        root.render(createElement(MessageList, {
+          messages,
+          renderMessage: (msg: Message) => createElement('div', { className: 'p-2' }, msg.content),
+          className: 'h-full',
+        }));
+      });
+      // The viewport is measured after mount and rows after they are laid out
+      await nextFrame();
+      await nextFrame();
+      const renderMs = performance.now() - renderStart;
+      const mountedRows = countRows();
+
+      const scroller = container.firstElementChild as HTMLElement;
+      const scrollTimes: number[] = [];
+      let maxMountedRows = mountedRows;
+      for (let step = 0; step <= scrollSteps; step++) {
+        scroller.scrollTop = (step / scrollSteps) * (scroller.scrollHeight - scroller.clientHeight);
+        const stepStart = performance.now();
+        // Handle the scroll synchronously so the re-render can be timed
+        flushSync(() => { scroller.dispatchEvent(new Event('scroll')); });
+        scrollTimes.push(performance.now() - stepStart);
+        await nextFrame();
+        maxMountedRows = Math.max(maxMountedRows, countRows());
+      }
+
+      const result: MessageListBenchmarkResult = {
+        messageCount,
+        groupingMs,
+        renderMs,
+        mountedRows,
+        scrollSteps,
+        avgScrollMs: scrollTimes.reduce((sum, ms) => sum + ms, 0) / scrollTimes.length,
+        maxScrollMs: Math.max(...scrollTimes),
+        maxMountedRows,
+      };
+      if (!mountedRows) {
+        console.error('❌ MessageList rendered no rows after layout:', result);
+      } else if (maxMountedRows < messageCount / 10) {
+        console.log('✅ MessageList benchmark:', result);
+      } else {
+        console.error('❌ MessageList mounted too many rows:', result);
+      }
+      return result;
+    } finally {
+      root.unmount();
+      container.remove();
+    }
+  }
+}
+
+// Browser console helper
+if (typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>).benchmarkMessageList = MessageListBenchmark;
+  console.log('🚀 MessageList benchmark loaded! Use benchmarkMessageList.run(messageCount) to run it.');
+}
+
+export default MessageListBenchmark;
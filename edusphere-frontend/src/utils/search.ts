@@ -0,0 +1,35 @@
+/**
+ * Helpers for presenting message search results
+ */
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The individual words of a search query
+ */
+export const getSearchTerms = (query: string): string[] =>
+  query.trim().split(/\s+/).filter(term => term.length > 0);
+
+/**
+ * Pattern matching any of the query's words, case-insensitively; null for an empty query
+ */
+export const buildSearchPattern = (query: string): RegExp | null => {
+  const terms = getSearchTerms(query);
+  if (!terms.length) return null;
+  return new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+};
+
+/**
+ * A single-line excerpt of the content centred on the first match
+ */
+export const getSearchExcerpt = (content: string, query: string, radius: number = 80): string => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  const pattern = buildSearchPattern(query);
+  const index = pattern ? text.search(pattern) : -1;
+  if (index === -1 || text.length <= radius * 2) {
+    return text.length > radius * 2 ? `${text.slice(0, radius * 2)}…` : text;
+  }
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + radius);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};